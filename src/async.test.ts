@@ -0,0 +1,204 @@
+import { asyncStore, resetAllStores } from "./index.js";
+
+const deferred = <T>() => {
+	let resolve: (value: T) => void = () => {};
+	let reject: (error: unknown) => void = () => {};
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+};
+
+describe("asyncStore", () => {
+	it("should start idle without fetching", () => {
+		const fetcher = vi.fn(async () => "data");
+		const dataStore = asyncStore(fetcher);
+
+		expect(dataStore.get()).toEqual({
+			status: "idle",
+			data: undefined,
+			error: undefined,
+			isFetching: false,
+		});
+		expect(fetcher).not.toHaveBeenCalled();
+	});
+
+	it("should fetch on first subscribe", async () => {
+		const request = deferred<string>();
+		const fetcher = vi.fn(() => request.promise);
+		const dataStore = asyncStore(fetcher);
+
+		dataStore.subscribe(() => {});
+		dataStore.subscribe(() => {});
+
+		expect(fetcher).toHaveBeenCalledTimes(1);
+		expect(dataStore.get().status).toBe("pending");
+		expect(dataStore.get().isFetching).toBe(true);
+
+		request.resolve("data");
+		await dataStore.load();
+
+		expect(dataStore.get()).toEqual({
+			status: "success",
+			data: "data",
+			error: undefined,
+			isFetching: false,
+		});
+	});
+
+	it("should expose fetch errors", async () => {
+		const error = new Error("Failed");
+		const dataStore = asyncStore(async () => {
+			throw error;
+		});
+
+		await expect(dataStore.refetch()).rejects.toBe(error);
+
+		expect(dataStore.get().status).toBe("error");
+		expect(dataStore.get().error).toBe(error);
+	});
+
+	it("should keep stale data while refetching", async () => {
+		let count = 0;
+		const requests = [deferred<number>(), deferred<number>()];
+		const dataStore = asyncStore(() => requests[count++].promise);
+
+		const first = dataStore.refetch();
+		requests[0].resolve(1);
+		await first;
+
+		const second = dataStore.refetch();
+		expect(dataStore.get()).toMatchObject({
+			status: "success",
+			data: 1,
+			isFetching: true,
+		});
+
+		requests[1].resolve(2);
+		await second;
+		expect(dataStore.get()).toMatchObject({
+			status: "success",
+			data: 2,
+			isFetching: false,
+		});
+	});
+
+	it("should keep stale data when a refetch fails", async () => {
+		let fail = false;
+		const dataStore = asyncStore(async () => {
+			if (fail) throw new Error("Failed");
+			return 1;
+		});
+
+		await dataStore.refetch();
+		fail = true;
+		await expect(dataStore.refetch()).rejects.toThrow("Failed");
+
+		expect(dataStore.get()).toMatchObject({ status: "error", data: 1 });
+	});
+
+	it("should only apply the latest of overlapping fetches", async () => {
+		const requests = [deferred<string>(), deferred<string>()];
+		const signals: AbortSignal[] = [];
+		let count = 0;
+		const dataStore = asyncStore((signal) => {
+			signals.push(signal);
+			return requests[count++].promise;
+		});
+
+		const first = dataStore.refetch();
+		const second = dataStore.refetch();
+		expect(signals[0].aborted).toBe(true);
+		expect(signals[1].aborted).toBe(false);
+
+		requests[1].resolve("second");
+		requests[0].resolve("first");
+
+		await expect(first).resolves.toBe("second");
+		await expect(second).resolves.toBe("second");
+		expect(dataStore.get().data).toBe("second");
+	});
+
+	it("should abort the fetch in flight", async () => {
+		const request = deferred<string>();
+		let signal: AbortSignal | undefined;
+		const dataStore = asyncStore((s) => {
+			signal = s;
+			return request.promise;
+		});
+
+		const promise = dataStore.refetch();
+		dataStore.abort();
+
+		expect(signal?.aborted).toBe(true);
+		expect(dataStore.get()).toMatchObject({
+			status: "idle",
+			isFetching: false,
+		});
+
+		request.resolve("data");
+		await expect(promise).rejects.toBeDefined();
+		expect(dataStore.get().data).toBeUndefined();
+	});
+
+	it("should abort the fetch in flight on reset", async () => {
+		const request = deferred<string>();
+		let signal: AbortSignal | undefined;
+		const dataStore = asyncStore((s) => {
+			signal = s;
+			return request.promise;
+		});
+
+		const promise = dataStore.refetch();
+		dataStore.reset();
+
+		expect(signal?.aborted).toBe(true);
+		expect(dataStore.get()).toEqual({
+			status: "idle",
+			data: undefined,
+			error: undefined,
+			isFetching: false,
+		});
+
+		request.resolve("data");
+		await expect(promise).rejects.toBeDefined();
+		expect(dataStore.get().status).toBe("idle");
+	});
+
+	it("should abort the fetch in flight on resetAllStores", async () => {
+		const request = deferred<string>();
+		const dataStore = asyncStore(() => request.promise);
+
+		const promise = dataStore.refetch();
+		resetAllStores();
+
+		request.resolve("data");
+		await expect(promise).rejects.toBeDefined();
+		expect(dataStore.get().status).toBe("idle");
+		expect(dataStore.get().data).toBeUndefined();
+	});
+
+	it("should load once and reuse the result", async () => {
+		const fetcher = vi.fn(async () => "data");
+		const dataStore = asyncStore(fetcher);
+
+		const [first, second] = await Promise.all([
+			dataStore.load(),
+			dataStore.load(),
+		]);
+		const third = await dataStore.load();
+
+		expect([first, second, third]).toEqual(["data", "data", "data"]);
+		expect(fetcher).toHaveBeenCalledTimes(1);
+	});
+
+	it("should work with select", async () => {
+		const dataStore = asyncStore(async () => ({ name: "Ada" }));
+		const statusStore = dataStore.select("status");
+
+		await dataStore.load();
+
+		expect(statusStore.get()).toBe("success");
+	});
+});
@@ -0,0 +1,152 @@
+import { type Store, store } from "./index.js";
+
+export type AsyncState<T> = {
+	/**
+	 * - `idle`: nothing has been fetched yet.
+	 * - `pending`: the first fetch is in flight.
+	 * - `success`: `data` holds the latest result. Refetches keep this status while `isFetching`.
+	 * - `error`: the last fetch failed. `data` holds the last successful result, if any.
+	 */
+	status: "idle" | "pending" | "success" | "error";
+	data: T | undefined;
+	error: unknown;
+	/** Whether a fetch is in flight, including refetches that show stale `data`. */
+	isFetching: boolean;
+};
+
+export type AsyncStore<T> = Store<AsyncState<T>> & {
+	/**
+	 * Fetch again, aborting any fetch in flight.
+	 * Resolves with the result of the latest fetch.
+	 */
+	refetch: () => Promise<T>;
+	/**
+	 * Resolve with the current data, fetching only if nothing has been fetched
+	 * and joining the fetch in flight otherwise.
+	 */
+	load: () => Promise<T>;
+	/** Abort the fetch in flight, if any. */
+	abort: () => void;
+};
+
+/**
+ * Creates a store for async data, tracking `status`, `data`, and `error`.
+ * The first fetch starts when the store is first subscribed to, or when `load()` or `refetch()` is called.
+ * Overlapping fetches are aborted so only the latest result is applied,
+ * and previous data is kept while refetching (stale-while-revalidate).
+ *
+ * @param fetcher - Fetches the data. Receives an `AbortSignal` that is aborted when the fetch is superseded.
+ * @returns A store of the async state, with `refetch()`, `load()`, and `abort()` methods.
+ * @example
+ * const userStore = asyncStore(async (signal) => {
+ *   const res = await fetch("/api/user", { signal });
+ *   return (await res.json()) as { name: string };
+ * });
+ *
+ * function User() {
+ *   const { status, data } = useStoreValue(userStore);
+ *   if (status === "pending") return <p>Loading...</p>;
+ *   return <p>{data?.name}</p>;
+ * }
+ */
+export function asyncStore<T>(
+	fetcher: (signal: AbortSignal) => Promise<T>,
+): AsyncStore<T> {
+	const state = store<AsyncState<T>>(
+		{
+			status: "idle",
+			data: undefined,
+			error: undefined,
+			isFetching: false,
+		},
+		{
+			// Resetting, including through resetAllStores(), aborts the fetch in flight.
+			middleware: [
+				() => ({
+					reset: (next) => () => {
+						latest?.controller.abort();
+						latest = undefined;
+						next();
+					},
+				}),
+			],
+		},
+	);
+
+	let latest: { controller: AbortController; promise: Promise<T> } | undefined;
+
+	const refetch = (): Promise<T> => {
+		latest?.controller.abort();
+		const controller = new AbortController();
+		const request = {
+			controller,
+			promise: new Promise<T>((resolve) => resolve(fetcher(controller.signal))),
+		};
+		latest = request;
+
+		state.set((current) => ({
+			...current,
+			status: current.status === "success" ? "success" : "pending",
+			isFetching: true,
+		}));
+
+		// Superseded fetches resolve with the latest fetch instead of applying their own result.
+		request.promise = request.promise.then(
+			(data) => {
+				if (latest && request !== latest) return latest.promise;
+				if (controller.signal.aborted) throw controller.signal.reason;
+				state.set({
+					status: "success",
+					data,
+					error: undefined,
+					isFetching: false,
+				});
+				return data;
+			},
+			(error) => {
+				if (latest && request !== latest) return latest.promise;
+				if (controller.signal.aborted) throw controller.signal.reason;
+				state.set((current) => ({
+					...current,
+					status: "error",
+					error,
+					isFetching: false,
+				}));
+				throw error;
+			},
+		);
+		return request.promise;
+	};
+
+	const load = (): Promise<T> => {
+		const { status, data, isFetching } = state.get();
+		if (isFetching && latest) return latest.promise;
+		if (status === "success") return Promise.resolve(data as T);
+		return refetch();
+	};
+
+	const abort = () => {
+		if (!latest || !state.get().isFetching) return;
+		latest.controller.abort();
+		state.set((current) => ({
+			...current,
+			status: current.status === "pending" ? "idle" : current.status,
+			isFetching: false,
+		}));
+	};
+
+	return {
+		...state,
+		subscribe: ((...args: Parameters<typeof state.subscribe>) => {
+			const { status, isFetching } = state.get();
+			if (status === "idle" && !isFetching) {
+				// Errors are reported through the `error` state.
+				refetch().catch(() => {});
+			}
+			return state.subscribe(...args);
+		}) as typeof state.subscribe,
+		refetch,
+		load,
+		abort,
+	};
+}
@@ -0,0 +1,224 @@
+import {
+	type DevtoolsExtension,
+	type DevtoolsMessage,
+	devtoolsMiddleware,
+	store,
+} from "./index.js";
+
+const createExtension = () => {
+	let listener: ((message: DevtoolsMessage) => void) | undefined;
+	const connection = {
+		init: vi.fn(),
+		send: vi.fn(),
+		unsubscribe: vi.fn(),
+		subscribe: (handler: (message: DevtoolsMessage) => void) => {
+			listener = handler;
+			return connection.unsubscribe;
+		},
+	};
+	const extension = {
+		connect: vi.fn(() => connection),
+	} satisfies DevtoolsExtension;
+	const dispatch = (message: DevtoolsMessage) => listener?.(message);
+	return { extension, connection, dispatch };
+};
+
+describe("devtoolsMiddleware", () => {
+	afterEach(() => {
+		delete (globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: unknown })
+			.__REDUX_DEVTOOLS_EXTENSION__;
+	});
+
+	it("connects to the extension and sends the initial state", () => {
+		const { extension, connection } = createExtension();
+
+		store(0, {
+			middleware: [devtoolsMiddleware({ name: "count", extension })],
+		});
+
+		expect(extension.connect).toHaveBeenCalledWith({ name: "count" });
+		expect(connection.init).toHaveBeenCalledWith(0);
+	});
+
+	it("uses the global extension by default", () => {
+		const { extension, connection } = createExtension();
+		(
+			globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension }
+		).__REDUX_DEVTOOLS_EXTENSION__ = extension;
+
+		const countStore = store(0, { middleware: [devtoolsMiddleware()] });
+		countStore.set(1);
+
+		expect(connection.send).toHaveBeenCalledWith({ type: "set" }, 1);
+	});
+
+	it("does nothing when the extension is absent", () => {
+		const countStore = store(0, { middleware: [devtoolsMiddleware()] });
+
+		countStore.set(1);
+
+		expect(countStore.get()).toBe(1);
+	});
+
+	it("does nothing when disabled", () => {
+		const { extension } = createExtension();
+
+		store(0, {
+			middleware: [devtoolsMiddleware({ extension, enabled: false })],
+		});
+
+		expect(extension.connect).not.toHaveBeenCalled();
+	});
+
+	it("sends each update with its action name", () => {
+		const { extension, connection } = createExtension();
+		const countStore = store(0, {
+			middleware: [
+				devtoolsMiddleware<number>({
+					extension,
+					action: (prev, next) => (next > prev ? "increment" : "decrement"),
+				}),
+			],
+		});
+
+		countStore.set(2);
+		countStore.set(1);
+
+		expect(connection.send).toHaveBeenNthCalledWith(
+			1,
+			{ type: "increment" },
+			2,
+		);
+		expect(connection.send).toHaveBeenNthCalledWith(
+			2,
+			{ type: "decrement" },
+			1,
+		);
+	});
+
+	it("jumps to a previous state without sending an action", () => {
+		const { extension, connection, dispatch } = createExtension();
+		const countStore = store(0, {
+			middleware: [devtoolsMiddleware({ extension })],
+		});
+		countStore.set(1);
+		connection.send.mockClear();
+
+		dispatch({
+			type: "DISPATCH",
+			payload: { type: "JUMP_TO_STATE" },
+			state: "5",
+		});
+
+		expect(countStore.get()).toBe(5);
+		expect(connection.send).not.toHaveBeenCalled();
+	});
+
+	it("resets to the initial state", () => {
+		const { extension, connection, dispatch } = createExtension();
+		const countStore = store(0, {
+			middleware: [devtoolsMiddleware({ extension })],
+		});
+		countStore.set(3);
+		connection.init.mockClear();
+
+		dispatch({ type: "DISPATCH", payload: { type: "RESET" } });
+
+		expect(countStore.get()).toBe(0);
+		expect(connection.init).toHaveBeenCalledWith(0);
+	});
+
+	it("commits the current state", () => {
+		const { extension, connection, dispatch } = createExtension();
+		const countStore = store(0, {
+			middleware: [devtoolsMiddleware({ extension })],
+		});
+		countStore.set(3);
+
+		dispatch({ type: "DISPATCH", payload: { type: "COMMIT" } });
+
+		expect(connection.init).toHaveBeenLastCalledWith(3);
+	});
+
+	it("rolls back to the committed state", () => {
+		const { extension, connection, dispatch } = createExtension();
+		const countStore = store(0, {
+			middleware: [devtoolsMiddleware({ extension })],
+		});
+		countStore.set(3);
+
+		dispatch({ type: "DISPATCH", payload: { type: "ROLLBACK" }, state: "1" });
+
+		expect(countStore.get()).toBe(1);
+		expect(connection.init).toHaveBeenLastCalledWith(1);
+	});
+
+	it("imports state history", () => {
+		const { extension, connection, dispatch } = createExtension();
+		const countStore = store(0, {
+			middleware: [devtoolsMiddleware({ extension })],
+		});
+		const nextLiftedState = {
+			computedStates: [{ state: 0 }, { state: 4 }, { state: 8 }],
+		};
+
+		dispatch({
+			type: "DISPATCH",
+			payload: { type: "IMPORT_STATE", nextLiftedState },
+		});
+
+		expect(countStore.get()).toBe(8);
+		expect(connection.send).toHaveBeenCalledWith(null, nextLiftedState);
+	});
+
+	it("reports selected stores under their path label", () => {
+		const { extension, connection, dispatch } = createExtension();
+		const documentStore = store({ notes: [{ title: "Example" }] });
+		const titleStore = documentStore.select("notes", 0, "title", {
+			middleware: [devtoolsMiddleware({ name: "notes/0/title", extension })],
+		});
+
+		expect(extension.connect).toHaveBeenCalledWith({ name: "notes/0/title" });
+		expect(connection.init).toHaveBeenCalledWith("Example");
+
+		titleStore.set("Updated");
+		expect(connection.send).toHaveBeenCalledWith({ type: "set" }, "Updated");
+
+		dispatch({
+			type: "DISPATCH",
+			payload: { type: "JUMP_TO_STATE" },
+			state: '"Example"',
+		});
+		expect(documentStore.get().notes[0].title).toBe("Example");
+	});
+
+	it("ignores states that cannot be parsed", () => {
+		const { extension, dispatch } = createExtension();
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const countStore = store(0, {
+			middleware: [devtoolsMiddleware({ extension })],
+		});
+
+		dispatch({
+			type: "DISPATCH",
+			payload: { type: "JUMP_TO_STATE" },
+			state: "{not json",
+		});
+
+		expect(countStore.get()).toBe(0);
+		warn.mockRestore();
+	});
+
+	it("unsubscribes on destroy", () => {
+		const { extension, connection } = createExtension();
+		const countStore = store(0, {
+			middleware: [devtoolsMiddleware({ extension })],
+		});
+
+		countStore.destroy();
+		countStore.set(1);
+
+		expect(connection.unsubscribe).toHaveBeenCalledTimes(1);
+		expect(connection.send).not.toHaveBeenCalled();
+	});
+});
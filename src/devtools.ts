@@ -0,0 +1,164 @@
+import { DEV } from "esm-env";
+import type { StateObject, StatePrimitive, StoreMiddleware } from "./index.js";
+
+/**
+ * Message sent by the Redux DevTools extension to a connection.
+ */
+export type DevtoolsMessage = {
+	type: string;
+	state?: string;
+	payload?: {
+		type?: string;
+		nextLiftedState?: { computedStates?: { state: unknown }[] };
+	};
+};
+
+/**
+ * Connection returned by the Redux DevTools extension's `connect()`.
+ */
+export type DevtoolsConnection = {
+	init: (state: unknown) => void;
+	send: (action: { type: string } | null, state: unknown) => void;
+	subscribe: (
+		listener: (message: DevtoolsMessage) => void,
+	) => (() => void) | undefined;
+};
+
+export type DevtoolsExtension = {
+	connect: (options: { name?: string }) => DevtoolsConnection;
+};
+
+export type DevtoolsOptions<T extends StateObject | StatePrimitive> = {
+	/**
+	 * Label shown for this store in the DevTools instance list.
+	 * Use a path label (ex. `"document/title"`) for selected stores.
+	 */
+	name?: string;
+	/**
+	 * Name the action sent for each update. Defaults to `"set"`.
+	 */
+	action?: string | ((prev: T, next: T) => string);
+	/**
+	 * Connect to the DevTools extension. Defaults to `true` in development.
+	 */
+	enabled?: boolean;
+	/**
+	 * The extension to connect to. Defaults to `window.__REDUX_DEVTOOLS_EXTENSION__`.
+	 */
+	extension?: DevtoolsExtension;
+};
+
+/**
+ * Connects a store to the Redux DevTools browser extension.
+ * Supports inspecting updates, jumping to previous states, and importing or exporting history.
+ * Does nothing when the extension is not installed.
+ * Use this in the `middleware` array when creating a store.
+ *
+ * @example
+ * const documentStore = store(
+ *   { title: "Untitled" },
+ *   { middleware: [devtoolsMiddleware({ name: "document" })] },
+ * );
+ */
+export const devtoolsMiddleware =
+	<T extends StateObject | StatePrimitive>(
+		options: DevtoolsOptions<T> = {},
+	): StoreMiddleware<T> =>
+	(store) => {
+		if (!(options.enabled ?? DEV)) return {};
+		const extension =
+			options.extension ??
+			(
+				globalThis as {
+					__REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension;
+				}
+			).__REDUX_DEVTOOLS_EXTENSION__;
+		if (!extension) return {};
+
+		let connection: DevtoolsConnection | undefined;
+		let applying = false;
+
+		// Apply state from the DevTools without reporting it back as a new action.
+		const apply = (state: unknown) => {
+			applying = true;
+			try {
+				store.set(state as T);
+			} finally {
+				applying = false;
+			}
+		};
+
+		const handleDispatch = (message: DevtoolsMessage) => {
+			switch (message.payload?.type) {
+				case "JUMP_TO_STATE":
+				case "JUMP_TO_ACTION": {
+					const state = parseState(message.state);
+					if (state) apply(state.value);
+					return;
+				}
+				case "ROLLBACK": {
+					const state = parseState(message.state);
+					if (!state) return;
+					apply(state.value);
+					connection?.init(store.get());
+					return;
+				}
+				case "RESET":
+					apply(store.getInitial());
+					connection?.init(store.get());
+					return;
+				case "COMMIT":
+					connection?.init(store.get());
+					return;
+				case "IMPORT_STATE": {
+					const nextLiftedState = message.payload.nextLiftedState;
+					const last = nextLiftedState?.computedStates?.at(-1);
+					if (!last) return;
+					apply(last.state);
+					connection?.send(null, nextLiftedState);
+					return;
+				}
+			}
+		};
+
+		return {
+			init: () => {
+				connection = extension.connect({ name: options.name });
+				connection.init(store.get());
+				const unsubscribe = connection.subscribe((message) => {
+					if (message.type === "DISPATCH") handleDispatch(message);
+				});
+				return () => {
+					unsubscribe?.();
+					connection = undefined;
+				};
+			},
+			set: (next) => (setter) => {
+				const prev = store.get();
+				next(setter);
+				if (applying || !connection) return;
+				const state = store.get();
+				const type =
+					typeof options.action === "function"
+						? options.action(prev, state)
+						: (options.action ?? "set");
+				connection.send({ type }, state);
+			},
+		};
+	};
+
+// DevTools serialize states as JSON. Selected stores may report `undefined`, which has no JSON form.
+function parseState(state: string | undefined): { value: unknown } | undefined {
+	if (state === undefined) return undefined;
+	try {
+		return { value: state === "undefined" ? undefined : JSON.parse(state) };
+	} catch {
+		if (DEV) {
+			console.warn(
+				"[@simplestack/store] Failed to parse DevTools state:",
+				state,
+			);
+		}
+		return undefined;
+	}
+}
@@ -0,0 +1,221 @@
+import { type EntityStore, entityStore } from "./index.js";
+import { nextTick } from "./test-utils.js";
+
+type Todo = { id: string; text: string; done: boolean };
+
+const createTodos = () =>
+	entityStore<Todo>({
+		initial: [
+			{ id: "1", text: "Buy groceries", done: false },
+			{ id: "2", text: "Walk the dog", done: false },
+		],
+	});
+
+describe("entityStore", () => {
+	it("should normalize the initial entities", () => {
+		const todosStore = createTodos();
+
+		expect(todosStore.get()).toEqual({
+			ids: ["1", "2"],
+			entities: {
+				"1": { id: "1", text: "Buy groceries", done: false },
+				"2": { id: "2", text: "Walk the dog", done: false },
+			},
+		});
+	});
+
+	it("should add entities and ignore existing ids", () => {
+		const todosStore = createTodos();
+
+		todosStore.addOne({ id: "3", text: "Read", done: false });
+		todosStore.addMany([
+			{ id: "1", text: "Ignored", done: true },
+			{ id: "4", text: "Write", done: false },
+		]);
+
+		expect(todosStore.get().ids).toEqual(["1", "2", "3", "4"]);
+		expect(todosStore.get().entities["1"].text).toBe("Buy groceries");
+	});
+
+	it("should upsert entities with a shallow merge", () => {
+		const todosStore = createTodos();
+
+		todosStore.upsertMany([
+			{ id: "1", text: "Buy milk", done: true },
+			{ id: "3", text: "Read", done: false },
+		]);
+		todosStore.upsertOne({ id: "2", text: "Walk the cat", done: false });
+
+		expect(todosStore.all.get()).toEqual([
+			{ id: "1", text: "Buy milk", done: true },
+			{ id: "2", text: "Walk the cat", done: false },
+			{ id: "3", text: "Read", done: false },
+		]);
+	});
+
+	it("should update entities with partial changes or a function", () => {
+		const todosStore = createTodos();
+
+		todosStore.updateOne("1", { done: true });
+		todosStore.updateOne("2", (todo) => ({
+			...todo,
+			text: todo.text.toUpperCase(),
+		}));
+		todosStore.updateOne("missing", { done: true });
+
+		expect(todosStore.all.get()).toEqual([
+			{ id: "1", text: "Buy groceries", done: true },
+			{ id: "2", text: "WALK THE DOG", done: false },
+		]);
+	});
+
+	it("should move entities when an update changes the id", () => {
+		const todosStore = createTodos();
+
+		todosStore.updateOne("1", { id: "10" });
+
+		expect(todosStore.get().ids).toEqual(["10", "2"]);
+		expect(todosStore.get().entities["10"].text).toBe("Buy groceries");
+		expect(todosStore.get().entities).not.toHaveProperty("1");
+	});
+
+	it("should ignore updates that change the id to an existing id", () => {
+		const todosStore = createTodos();
+		const before = todosStore.get();
+
+		todosStore.updateOne("1", { id: "2" });
+
+		expect(todosStore.get()).toBe(before);
+		expect(todosStore.get().ids).toEqual(["1", "2"]);
+	});
+
+	it("should remove entities", () => {
+		const todosStore = createTodos();
+		todosStore.addOne({ id: "3", text: "Read", done: false });
+
+		todosStore.removeOne("1");
+		todosStore.removeMany(["3", "missing"]);
+
+		expect(todosStore.get().ids).toEqual(["2"]);
+
+		todosStore.removeAll();
+		expect(todosStore.get()).toEqual({ ids: [], entities: {} });
+	});
+
+	it("should replace all entities", () => {
+		const todosStore = createTodos();
+
+		todosStore.setAll([{ id: "5", text: "Sleep", done: false }]);
+
+		expect(todosStore.get().ids).toEqual(["5"]);
+	});
+
+	it("should keep ids sorted by the sortComparer", () => {
+		const todosStore = entityStore<Todo>({
+			sortComparer: (a, b) => a.text.localeCompare(b.text),
+		});
+
+		todosStore.addMany([
+			{ id: "1", text: "b", done: false },
+			{ id: "2", text: "c", done: false },
+			{ id: "3", text: "a", done: false },
+		]);
+		expect(todosStore.get().ids).toEqual(["3", "1", "2"]);
+
+		todosStore.updateOne("2", { text: "0" });
+		expect(todosStore.get().ids).toEqual(["2", "3", "1"]);
+	});
+
+	it("should keep the ids array when the order does not change", () => {
+		const todosStore = createTodos();
+		const { ids } = todosStore.get();
+
+		todosStore.updateOne("1", { done: true });
+
+		expect(todosStore.get().ids).toBe(ids);
+	});
+
+	it("should skip updates that change nothing", async () => {
+		const todosStore = createTodos();
+		const callback = vi.fn();
+		todosStore.subscribe(callback);
+
+		todosStore.addOne({ id: "1", text: "Ignored", done: false });
+		todosStore.removeOne("missing");
+		await nextTick();
+
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	it("should pass store options to the store", () => {
+		const todosStore = entityStore<Todo>({ sync: true });
+		const callback = vi.fn();
+		todosStore.subscribe(callback, { fireImmediately: false });
+
+		todosStore.addOne({ id: "1", text: "Read", done: false });
+
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	it("should use selectId for entities without an id", () => {
+		type User = { email: string; name: string };
+		const usersStore: EntityStore<User, string> = entityStore<User, string>({
+			selectId: (user) => user.email,
+		});
+
+		usersStore.addOne({ email: "ada@example.com", name: "Ada" });
+
+		expect(usersStore.get().ids).toEqual(["ada@example.com"]);
+	});
+
+	it("should infer numeric ids", () => {
+		const messagesStore = entityStore<{ id: number; text: string }>();
+
+		messagesStore.addOne({ id: 1, text: "Hi" });
+
+		const ids: number[] = messagesStore.get().ids;
+		expect(ids).toEqual([1]);
+	});
+
+	describe("selectById", () => {
+		it("should return the same store for the same id", () => {
+			const todosStore = createTodos();
+
+			expect(todosStore.selectById("1")).toBe(todosStore.selectById("1"));
+		});
+
+		it("should only notify subscribers when the selected entity changes", async () => {
+			const todosStore = createTodos();
+			const first = vi.fn();
+			const second = vi.fn();
+			todosStore.selectById("1").subscribe(first);
+			todosStore.selectById("2").subscribe(second);
+
+			todosStore.updateOne("1", { done: true });
+			await nextTick();
+
+			expect(first).toHaveBeenCalledTimes(2);
+			expect(second).toHaveBeenCalledTimes(1);
+		});
+
+		it("should set the selected entity", () => {
+			const todosStore = createTodos();
+
+			todosStore
+				.selectById("1")
+				.set((todo) => (todo ? { ...todo, done: true } : todo));
+
+			expect(todosStore.get().entities["1"].done).toBe(true);
+		});
+
+		it("should return undefined for missing entities", () => {
+			const todosStore = createTodos();
+			const todo = todosStore.selectById("3");
+
+			expect(todo.get()).toBeUndefined();
+
+			todosStore.addOne({ id: "3", text: "Read", done: false });
+			expect(todo.get()?.text).toBe("Read");
+		});
+	});
+});
@@ -0,0 +1,213 @@
+import {
+	computed,
+	type ReadonlyStore,
+	type StateObject,
+	type Store,
+	type StoreOptions,
+	store,
+} from "./index.js";
+
+export type EntityId = string | number;
+
+export type EntityState<T extends StateObject, Id extends EntityId> = {
+	/** The id of each entity, in insertion order or sorted by `sortComparer`. */
+	ids: Id[];
+	entities: Record<Id, T>;
+};
+
+export type EntityOptions<
+	T extends StateObject,
+	Id extends EntityId,
+> = StoreOptions<EntityState<T, Id>> & {
+	/** Entities to start with. */
+	initial?: T[];
+	/** Keep `ids` sorted by comparing entities. Defaults to insertion order. */
+	sortComparer?: (a: T, b: T) => number;
+} & (T extends { id: Id }
+		? {
+				/** Returns the id of an entity. Defaults to `entity.id`. */
+				selectId?: (entity: T) => Id;
+			}
+		: {
+				/** Returns the id of an entity. */
+				selectId: (entity: T) => Id;
+			});
+
+export type EntityStore<T extends StateObject, Id extends EntityId> = Store<
+	EntityState<T, Id>
+> & {
+	/** Add an entity. Ignored if an entity with the same id exists. */
+	addOne: (entity: T) => void;
+	/** Add entities. Entities with existing ids are ignored. */
+	addMany: (entities: readonly T[]) => void;
+	/** Add an entity, or shallow merge it into the entity with the same id. */
+	upsertOne: (entity: T) => void;
+	/** Add entities, or shallow merge them into the entities with the same ids. */
+	upsertMany: (entities: readonly T[]) => void;
+	/**
+	 * Update an existing entity with a partial entity, or a function that returns the updated entity.
+	 * Ignored if there is no entity with the id, or if the update changes the id to one that is already taken.
+	 */
+	updateOne: (id: Id, changes: Partial<T> | ((entity: T) => T)) => void;
+	/** Remove an entity. */
+	removeOne: (id: Id) => void;
+	/** Remove entities. */
+	removeMany: (ids: readonly Id[]) => void;
+	/** Replace all entities. */
+	setAll: (entities: readonly T[]) => void;
+	/** Remove all entities. */
+	removeAll: () => void;
+	/**
+	 * Select a single entity. Subscribers are only notified when that entity changes.
+	 * Returns the same store each time it is called with the same id.
+	 */
+	selectById: (id: Id) => Store<T | undefined>;
+	/** Every entity, in the order of `ids`. */
+	all: ReadonlyStore<T[]>;
+};
+
+/**
+ * Creates a store for a normalized collection of entities, stored as `{ ids, entities }`.
+ * Updates only replace the changed entities, so stores selected with `selectById()`
+ * skip updates to other entities.
+ *
+ * @param options - How to identify and sort entities, and the entities to start with.
+ * @returns A store of the entity state, with methods to add, update, and remove entities.
+ * @example
+ * type Todo = { id: string; text: string; done: boolean };
+ * const todosStore = entityStore<Todo>({
+ *   sortComparer: (a, b) => a.text.localeCompare(b.text),
+ * });
+ *
+ * todosStore.addOne({ id: "1", text: "Write docs", done: false });
+ * todosStore.updateOne("1", { done: true });
+ *
+ * function TodoRow({ id }: { id: string }) {
+ *   const todo = useStoreValue(todosStore.selectById(id));
+ *   return <li>{todo?.text}</li>;
+ * }
+ */
+export function entityStore<
+	T extends StateObject,
+	Id extends EntityId = T extends { id: infer I extends EntityId } ? I : string,
+>(options: EntityOptions<T, Id>): EntityStore<T, Id>;
+export function entityStore<
+	T extends { id: EntityId },
+	Id extends EntityId = T["id"],
+>(options?: EntityOptions<T, Id>): EntityStore<T, Id>;
+export function entityStore<T extends StateObject, Id extends EntityId>(
+	options: EntityOptions<T, Id> = {} as EntityOptions<T, Id>,
+): EntityStore<T, Id> {
+	// The remaining options are passed to the store, so every store option is supported.
+	const {
+		initial,
+		sortComparer,
+		selectId: selectIdOption,
+		...storeOptions
+	} = options;
+	const selectId: (entity: T) => Id =
+		(selectIdOption as ((entity: T) => Id) | undefined) ??
+		((entity) => entity.id);
+
+	const sortIds = (ids: Id[], entities: Record<Id, T>, prevIds: Id[]): Id[] => {
+		if (!sortComparer) return ids;
+		const sorted = [...ids].sort((a, b) =>
+			sortComparer(entities[a], entities[b]),
+		);
+		// Keep the previous array when the order did not change.
+		return sorted.length === prevIds.length &&
+			sorted.every((id, index) => id === prevIds[index])
+			? prevIds
+			: sorted;
+	};
+
+	const insert = (
+		state: EntityState<T, Id>,
+		items: readonly T[],
+		merge: boolean,
+	): EntityState<T, Id> => {
+		let entities = state.entities;
+		let ids = state.ids;
+		for (const item of items) {
+			const id = selectId(item);
+			const exists = Object.hasOwn(entities, id);
+			if (exists && !merge) continue;
+			const next = exists ? { ...entities[id], ...item } : item;
+			if (entities === state.entities) entities = { ...entities };
+			entities[id] = next;
+			if (!exists) {
+				if (ids === state.ids) ids = [...ids];
+				ids.push(id);
+			}
+		}
+		if (entities === state.entities) return state;
+		return { ids: sortIds(ids, entities, state.ids), entities };
+	};
+
+	const remove = (
+		state: EntityState<T, Id>,
+		removed: readonly Id[],
+	): EntityState<T, Id> => {
+		const existing = removed.filter((id) => Object.hasOwn(state.entities, id));
+		if (!existing.length) return state;
+		const entities = { ...state.entities };
+		for (const id of existing) delete entities[id];
+		return {
+			ids: state.ids.filter((id) => Object.hasOwn(entities, id)),
+			entities,
+		};
+	};
+
+	const fromEntities = (items: readonly T[]) =>
+		insert({ ids: [], entities: {} as Record<Id, T> }, items, true);
+
+	const state = store<EntityState<T, Id>>(
+		fromEntities(initial ?? []),
+		storeOptions,
+	);
+
+	const selectEntity = state.select as unknown as (
+		key: "entities",
+		id: Id,
+	) => Store<T | undefined>;
+
+	return {
+		...state,
+		addOne: (entity) =>
+			state.set((current) => insert(current, [entity], false)),
+		addMany: (entities) =>
+			state.set((current) => insert(current, entities, false)),
+		upsertOne: (entity) =>
+			state.set((current) => insert(current, [entity], true)),
+		upsertMany: (entities) =>
+			state.set((current) => insert(current, entities, true)),
+		updateOne: (id, changes) =>
+			state.set((current) => {
+				if (!Object.hasOwn(current.entities, id)) return current;
+				const prev = current.entities[id];
+				const next =
+					typeof changes === "function"
+						? changes(prev)
+						: { ...prev, ...changes };
+				const nextId = selectId(next);
+				if (nextId !== id && Object.hasOwn(current.entities, nextId)) {
+					return current;
+				}
+				const entities = { ...current.entities };
+				// Updates that change the id move the entity to its new id.
+				if (nextId !== id) delete entities[id];
+				entities[nextId] = next;
+				const ids =
+					nextId === id
+						? current.ids
+						: current.ids.map((entry) => (entry === id ? nextId : entry));
+				return { ids: sortIds(ids, entities, current.ids), entities };
+			}),
+		removeOne: (id) => state.set((current) => remove(current, [id])),
+		removeMany: (ids) => state.set((current) => remove(current, ids)),
+		setAll: (entities) => state.set(fromEntities(entities)),
+		removeAll: () => state.set(fromEntities([])),
+		selectById: (id) => selectEntity("entities", id),
+		all: computed(state, ({ ids, entities }) => ids.map((id) => entities[id])),
+	};
+}
@@ -0,0 +1,192 @@
+import { batch, historyMiddleware, store } from "./index.js";
+
+describe("historyMiddleware", () => {
+	it("undoes and redoes updates", () => {
+		const history = historyMiddleware<number>();
+		const countStore = store(0, { middleware: [history] });
+
+		countStore.set(1);
+		countStore.set(2);
+
+		history.undo();
+		expect(countStore.get()).toBe(1);
+		history.undo();
+		expect(countStore.get()).toBe(0);
+
+		history.redo();
+		expect(countStore.get()).toBe(1);
+		history.redo();
+		expect(countStore.get()).toBe(2);
+	});
+
+	it("does nothing when there is nothing to undo or redo", () => {
+		const history = historyMiddleware<number>();
+		const countStore = store(0, { middleware: [history] });
+
+		history.undo();
+		history.redo();
+
+		expect(countStore.get()).toBe(0);
+	});
+
+	it("exposes canUndo and canRedo as stores", () => {
+		const history = historyMiddleware<number>();
+		const countStore = store(0, { middleware: [history] });
+
+		expect(history.canUndo.get()).toBe(false);
+		expect(history.canRedo.get()).toBe(false);
+
+		countStore.set(1);
+		expect(history.canUndo.get()).toBe(true);
+
+		history.undo();
+		expect(history.canUndo.get()).toBe(false);
+		expect(history.canRedo.get()).toBe(true);
+	});
+
+	it("clears the redo stack on a new update", () => {
+		const history = historyMiddleware<number>();
+		const countStore = store(0, { middleware: [history] });
+
+		countStore.set(1);
+		history.undo();
+		countStore.set(5);
+
+		expect(history.canRedo.get()).toBe(false);
+		history.redo();
+		expect(countStore.get()).toBe(5);
+	});
+
+	it("ignores sets that leave the state unchanged", () => {
+		const history = historyMiddleware<number>();
+		const countStore = store(0, { middleware: [history] });
+
+		countStore.set(0);
+
+		expect(history.canUndo.get()).toBe(false);
+	});
+
+	it("clears all steps", () => {
+		const history = historyMiddleware<number>();
+		const countStore = store(0, { middleware: [history] });
+
+		countStore.set(1);
+		countStore.set(2);
+		history.undo();
+		history.clear();
+
+		expect(history.canUndo.get()).toBe(false);
+		expect(history.canRedo.get()).toBe(false);
+		expect(countStore.get()).toBe(1);
+	});
+
+	it("clears all steps when the store is reset", () => {
+		const history = historyMiddleware<number>();
+		const countStore = store(0, { middleware: [history] });
+
+		countStore.set(1);
+		countStore.set(2);
+		history.undo();
+		countStore.reset();
+
+		expect(countStore.get()).toBe(0);
+		expect(history.canUndo.get()).toBe(false);
+		expect(history.canRedo.get()).toBe(false);
+	});
+
+	it("keeps at most limit undo steps", () => {
+		const history = historyMiddleware<number>({ limit: 2 });
+		const countStore = store(0, { middleware: [history] });
+
+		countStore.set(1);
+		countStore.set(2);
+		countStore.set(3);
+
+		history.undo();
+		history.undo();
+		history.undo();
+		expect(countStore.get()).toBe(1);
+	});
+
+	it("keeps no undo steps when limit is 0", () => {
+		const history = historyMiddleware<number>({ limit: 0 });
+		const countStore = store(0, { middleware: [history] });
+
+		countStore.set(1);
+		countStore.set(2);
+
+		expect(history.canUndo.get()).toBe(false);
+		history.undo();
+		expect(countStore.get()).toBe(2);
+	});
+
+	it("groups rapid updates into one step", () => {
+		const now = vi.spyOn(Date, "now").mockReturnValue(1000);
+		const history = historyMiddleware<string>({ groupWindow: 500 });
+		const textStore = store("", { middleware: [history] });
+
+		textStore.set("h");
+		now.mockReturnValue(1200);
+		textStore.set("hi");
+		now.mockReturnValue(2000);
+		textStore.set("hi!");
+
+		history.undo();
+		expect(textStore.get()).toBe("hi");
+		history.undo();
+		expect(textStore.get()).toBe("");
+	});
+
+	it("records updates from selected stores", () => {
+		const history = historyMiddleware<{ title: string; tags: string[] }>();
+		const documentStore = store(
+			{ title: "Untitled", tags: ["draft"] },
+			{ middleware: [history] },
+		);
+
+		documentStore.select("title").set("Notes");
+		documentStore.select("tags", 0).set("final");
+
+		history.undo();
+		expect(documentStore.get()).toEqual({ title: "Notes", tags: ["draft"] });
+		history.undo();
+		expect(documentStore.get()).toEqual({ title: "Untitled", tags: ["draft"] });
+	});
+
+	it("records a batch as one step", () => {
+		const history = historyMiddleware<{ name: string; email: string }>();
+		const formStore = store(
+			{ name: "Ada", email: "ada@example.com" },
+			{ middleware: [history] },
+		);
+
+		batch(() => {
+			formStore.select("name").set("");
+			formStore.select("email").set("");
+		});
+		history.undo();
+
+		expect(formStore.get()).toEqual({ name: "Ada", email: "ada@example.com" });
+	});
+
+	it("runs other middleware when undoing", () => {
+		const transitions: number[] = [];
+		const history = historyMiddleware<number>();
+		const countStore = store(0, {
+			middleware: [
+				history,
+				() => ({
+					set: (next) => (setter) => {
+						next(setter);
+						transitions.push(countStore.get());
+					},
+				}),
+			],
+		});
+
+		countStore.set(1);
+		history.undo();
+
+		expect(transitions).toEqual([1, 0]);
+	});
+});
@@ -0,0 +1,141 @@
+import { DEV } from "esm-env";
+import {
+	computed,
+	type ReadonlyStore,
+	type StateObject,
+	type StatePrimitive,
+	type Store,
+	type StoreMiddleware,
+	store,
+} from "./index.js";
+
+export type HistoryOptions = {
+	/**
+	 * Maximum number of undo steps to keep. `0` or less keeps no steps. Defaults to `100`.
+	 */
+	limit?: number;
+	/**
+	 * Group updates made within this many milliseconds of each other into one undo step.
+	 * Useful for text input, where each keystroke is an update. Defaults to `0` (no grouping).
+	 */
+	groupWindow?: number;
+};
+
+export type HistoryMiddleware<T extends StateObject | StatePrimitive> =
+	StoreMiddleware<T> & {
+		/** Restore the state before the last update. */
+		undo: () => void;
+		/** Re-apply the last undone update. */
+		redo: () => void;
+		/** Remove all undo and redo steps. */
+		clear: () => void;
+		/** Whether there is an update to undo. */
+		canUndo: ReadonlyStore<boolean>;
+		/** Whether there is an update to redo. */
+		canRedo: ReadonlyStore<boolean>;
+	};
+
+/**
+ * Records store updates so they can be undone and redone.
+ * Create one history per store, and use it in the `middleware` array when creating the store.
+ * Updates from selected stores are recorded by the parent store's history.
+ * Resetting the store clears the history.
+ *
+ * @example
+ * const history = historyMiddleware<{ title: string }>({ limit: 50 });
+ * const documentStore = store({ title: "Untitled" }, { middleware: [history] });
+ *
+ * documentStore.select("title").set("Notes");
+ * history.undo();
+ * console.log(documentStore.get()); // { title: "Untitled" }
+ *
+ * // In React:
+ * const canUndo = useStoreValue(history.canUndo);
+ */
+export function historyMiddleware<T extends StateObject | StatePrimitive>(
+	options: HistoryOptions = {},
+): HistoryMiddleware<T> {
+	const limit = options.limit ?? 100;
+	const groupWindow = options.groupWindow ?? 0;
+	const stacks = store({ past: [] as T[], future: [] as T[] });
+
+	let target: Store<T> | undefined;
+	let applying = false;
+	let lastRecordedAt = Number.NEGATIVE_INFINITY;
+
+	// `slice(-0)` would keep every step, so limits of 0 or less are handled here.
+	const keepLast = (steps: T[]) => (limit > 0 ? steps.slice(-limit) : []);
+
+	// Apply a state from the history without recording it as a new update.
+	const apply = (state: T) => {
+		if (!target) return;
+		applying = true;
+		try {
+			target.set(state);
+		} finally {
+			applying = false;
+		}
+	};
+
+	const record = (prev: T) => {
+		const now = Date.now();
+		const grouped = groupWindow > 0 && now - lastRecordedAt <= groupWindow;
+		lastRecordedAt = now;
+		stacks.set(({ past }) => ({
+			// Grouped updates keep the state from before the first update in the group.
+			past: grouped && past.length ? past : keepLast([...past, prev]),
+			future: [],
+		}));
+	};
+
+	const clear = () => {
+		lastRecordedAt = Number.NEGATIVE_INFINITY;
+		stacks.set({ past: [], future: [] });
+	};
+
+	const middleware: StoreMiddleware<T> = (api) => {
+		if (DEV && target) {
+			console.warn(
+				"[@simplestack/store] historyMiddleware() was added to more than one store. Create a separate history for each store.",
+			);
+		}
+		target = api;
+		return {
+			set: (next) => (setter) => {
+				const prev = api.get();
+				next(setter);
+				if (applying || Object.is(prev, api.get())) return;
+				record(prev);
+			},
+			reset: (next) => () => {
+				next();
+				clear();
+			},
+		};
+	};
+
+	return Object.assign(middleware, {
+		undo: () => {
+			const { past, future } = stacks.get();
+			const previous = past.at(-1);
+			if (!target || !past.length) return;
+			lastRecordedAt = Number.NEGATIVE_INFINITY;
+			stacks.set({
+				past: past.slice(0, -1),
+				future: [target.get(), ...future],
+			});
+			apply(previous as T);
+		},
+		redo: () => {
+			const { past, future } = stacks.get();
+			const [next, ...rest] = future;
+			if (!target || !future.length) return;
+			lastRecordedAt = Number.NEGATIVE_INFINITY;
+			stacks.set({ past: keepLast([...past, target.get()]), future: rest });
+			apply(next);
+		},
+		clear,
+		canUndo: computed(stacks, ({ past }) => past.length > 0),
+		canRedo: computed(stacks, ({ future }) => future.length > 0),
+	});
+}
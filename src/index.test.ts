@@ -1,5 +1,23 @@
 import { DEV } from "esm-env";
-import { type Store, store } from "./index.js";
+import {
+	applyPatches,
+	batch,
+	computed,
+	configureScheduler,
+	dehydrate,
+	flushEffects,
+	getInitialWith,
+	hydrate,
+	type JsonPatch,
+	type Lens,
+	produce,
+	type ReadonlyStore,
+	resetAllStores,
+	type Store,
+	type StoreMiddleware,
+	shallow,
+	store,
+} from "./index.js";
 import { nextTick } from "./test-utils.js";
 
 describe("store", () => {
@@ -117,13 +135,13 @@ describe("store", () => {
 
 			countStore.subscribe(callback);
 
-			expect(callback).toHaveBeenCalledWith(0);
+			expect(callback).toHaveBeenCalledWith(0, undefined);
 
 			callback.mockClear();
 			countStore.set(1);
 
 			await nextTick();
-			expect(callback).toHaveBeenCalledWith(1);
+			expect(callback).toHaveBeenCalledWith(1, 0);
 		});
 
 		it("should call multiple subscribers", async () => {
@@ -134,8 +152,8 @@ describe("store", () => {
 			countStore.subscribe(callback1);
 			countStore.subscribe(callback2);
 
-			expect(callback1).toHaveBeenCalledWith(0);
-			expect(callback2).toHaveBeenCalledWith(0);
+			expect(callback1).toHaveBeenCalledWith(0, undefined);
+			expect(callback2).toHaveBeenCalledWith(0, undefined);
 
 			callback1.mockClear();
 			callback2.mockClear();
@@ -143,8 +161,8 @@ describe("store", () => {
 			countStore.set(5);
 
 			await nextTick();
-			expect(callback1).toHaveBeenCalledWith(5);
-			expect(callback2).toHaveBeenCalledWith(5);
+			expect(callback1).toHaveBeenCalledWith(5, 0);
+			expect(callback2).toHaveBeenCalledWith(5, 0);
 		});
 
 		it("should unsubscribe", async () => {
@@ -153,7 +171,7 @@ describe("store", () => {
 
 			const unsubscribe = countStore.subscribe(callback);
 
-			expect(callback).toHaveBeenCalledWith(0);
+			expect(callback).toHaveBeenCalledWith(0, undefined);
 			callback.mockClear();
 
 			unsubscribe();
@@ -169,7 +187,7 @@ describe("store", () => {
 
 			countStore.subscribe(callback);
 
-			expect(callback).toHaveBeenCalledWith(5);
+			expect(callback).toHaveBeenCalledWith(5, undefined);
 			callback.mockClear();
 
 			countStore.set(5);
@@ -184,13 +202,13 @@ describe("store", () => {
 
 			objStore.subscribe(callback);
 
-			expect(callback).toHaveBeenCalledWith({ count: 1 });
+			expect(callback).toHaveBeenCalledWith({ count: 1 }, undefined);
 			callback.mockClear();
 
 			objStore.set({ count: 1 });
 
 			await nextTick();
-			expect(callback).toHaveBeenCalledWith({ count: 1 });
+			expect(callback).toHaveBeenCalledWith({ count: 1 }, { count: 1 });
 		});
 
 		it("should handle multiple sequential updates", async () => {
@@ -199,7 +217,7 @@ describe("store", () => {
 
 			countStore.subscribe(callback);
 
-			expect(callback).toHaveBeenCalledWith(0);
+			expect(callback).toHaveBeenCalledWith(0, undefined);
 
 			callback.mockClear();
 
@@ -211,9 +229,9 @@ describe("store", () => {
 			await nextTick();
 
 			expect(callback).toHaveBeenCalledTimes(3);
-			expect(callback).toHaveBeenNthCalledWith(1, 1);
-			expect(callback).toHaveBeenNthCalledWith(2, 2);
-			expect(callback).toHaveBeenNthCalledWith(3, 3);
+			expect(callback).toHaveBeenNthCalledWith(1, 1, 0);
+			expect(callback).toHaveBeenNthCalledWith(2, 2, 1);
+			expect(callback).toHaveBeenNthCalledWith(3, 3, 2);
 		});
 
 		it("should propagate every update when setting another store inside subscribe", async () => {
@@ -226,7 +244,7 @@ describe("store", () => {
 			});
 			storeA.subscribe(callback);
 
-			expect(callback).toHaveBeenCalledWith(0);
+			expect(callback).toHaveBeenCalledWith(0, undefined);
 			callback.mockClear();
 
 			storeB.set(1);
@@ -237,9 +255,9 @@ describe("store", () => {
 			await nextTick();
 
 			expect(callback).toHaveBeenCalledTimes(3);
-			expect(callback).toHaveBeenNthCalledWith(1, 1);
-			expect(callback).toHaveBeenNthCalledWith(2, 2);
-			expect(callback).toHaveBeenNthCalledWith(3, 3);
+			expect(callback).toHaveBeenNthCalledWith(1, 1, 0);
+			expect(callback).toHaveBeenNthCalledWith(2, 2, 1);
+			expect(callback).toHaveBeenNthCalledWith(3, 3, 2);
 		});
 	});
 
@@ -551,13 +569,13 @@ describe("store", () => {
 
 			nameStore.subscribe(callback);
 
-			expect(callback).toHaveBeenCalledWith("Alice");
+			expect(callback).toHaveBeenCalledWith("Alice", undefined);
 			callback.mockClear();
 
 			nameStore.set("Bob");
 
 			await nextTick();
-			expect(callback).toHaveBeenCalledWith("Bob");
+			expect(callback).toHaveBeenCalledWith("Bob", "Alice");
 		});
 
 		it("should trigger selected subscription when parent updates", async () => {
@@ -567,13 +585,13 @@ describe("store", () => {
 
 			nameStore.subscribe(callback);
 
-			expect(callback).toHaveBeenCalledWith("Alice");
+			expect(callback).toHaveBeenCalledWith("Alice", undefined);
 			callback.mockClear();
 
 			objStore.set({ name: "Bob", age: 30 });
 
 			await nextTick();
-			expect(callback).toHaveBeenCalledWith("Bob");
+			expect(callback).toHaveBeenCalledWith("Bob", "Alice");
 		});
 
 		it("should not trigger selected subscription if selected value unchanged", async () => {
@@ -583,7 +601,7 @@ describe("store", () => {
 
 			nameStore.subscribe(callback);
 
-			expect(callback).toHaveBeenCalledWith("Alice");
+			expect(callback).toHaveBeenCalledWith("Alice", undefined);
 			callback.mockClear();
 
 			objStore.set({ name: "Alice", age: 31 });
@@ -864,15 +882,15 @@ describe("store", () => {
 			nameStore.subscribe(nameCallback);
 			ageStore.subscribe(ageCallback);
 
-			expect(nameCallback).toHaveBeenCalledWith("Alice");
-			expect(ageCallback).toHaveBeenCalledWith(30);
+			expect(nameCallback).toHaveBeenCalledWith("Alice", undefined);
+			expect(ageCallback).toHaveBeenCalledWith(30, undefined);
 			nameCallback.mockClear();
 			ageCallback.mockClear();
 
 			ageStore.set(31);
 
 			await nextTick();
-			expect(ageCallback).toHaveBeenCalledWith(31);
+			expect(ageCallback).toHaveBeenCalledWith(31, 30);
 			expect(nameCallback).not.toHaveBeenCalled();
 		});
 
@@ -950,3 +968,1926 @@ describe("store", () => {
 		});
 	});
 });
+
+describe("computed", () => {
+	it("should derive a value from a single store", () => {
+		const countStore = store(2);
+		const doubledStore = computed(countStore, (count) => count * 2);
+
+		expect(doubledStore.get()).toBe(4);
+
+		countStore.set(5);
+		expect(doubledStore.get()).toBe(10);
+	});
+
+	it("should derive a value from multiple stores", () => {
+		const firstNameStore = store("Ada");
+		const lastNameStore = store("Lovelace");
+		const fullNameStore: ReadonlyStore<string> = computed(
+			[firstNameStore, lastNameStore],
+			(first, last) => `${first} ${last}`,
+		);
+
+		expect(fullNameStore.get()).toBe("Ada Lovelace");
+
+		lastNameStore.set("Byron");
+		expect(fullNameStore.get()).toBe("Ada Byron");
+	});
+
+	it("should derive from selected stores", () => {
+		const documentStore = store({ meta: { tags: ["draft", "internal"] } });
+		const tagCountStore = computed(
+			documentStore.select("meta", "tags"),
+			(tags) => tags.length,
+		);
+
+		expect(tagCountStore.get()).toBe(2);
+
+		documentStore.select("meta", "tags").set((tags) => [...tags, "new"]);
+		expect(tagCountStore.get()).toBe(3);
+	});
+
+	it("should memoize the projection until a source changes", () => {
+		const countStore = store(1);
+		const otherStore = store(0);
+		const project = vi.fn((count: number) => count * 2);
+		const doubledStore = computed(countStore, project);
+
+		doubledStore.get();
+		doubledStore.get();
+		otherStore.set(1);
+		doubledStore.get();
+		expect(project).toHaveBeenCalledTimes(1);
+
+		countStore.set(2);
+		doubledStore.get();
+		expect(project).toHaveBeenCalledTimes(2);
+	});
+
+	it("should derive the initial value from source initial values", () => {
+		const countStore = store(1);
+		const doubledStore = computed(countStore, (count) => count * 2);
+
+		countStore.set(5);
+
+		expect(doubledStore.getInitial()).toBe(2);
+		expect(doubledStore.get()).toBe(10);
+	});
+
+	it("should recompute the initial value when a source initial value changes", () => {
+		let initialName = "ada";
+		const nameStore: ReadonlyStore<string> = {
+			...store("ada"),
+			getInitial: () => initialName,
+		};
+		const project = vi.fn((name: string) => `hi ${name}`);
+		const greetingStore = computed(nameStore, project);
+
+		expect(greetingStore.getInitial()).toBe("hi ada");
+		expect(greetingStore.getInitial()).toBe("hi ada");
+		expect(project).toHaveBeenCalledTimes(1);
+
+		initialName = "grace";
+		expect(greetingStore.getInitial()).toBe("hi grace");
+	});
+
+	it("should notify subscribers when the derived value changes", async () => {
+		const countStore = store(1);
+		const parityStore = computed(countStore, (count) =>
+			count % 2 === 0 ? "even" : "odd",
+		);
+		const callback = vi.fn();
+
+		parityStore.subscribe(callback);
+		expect(callback).toHaveBeenCalledWith("odd", undefined);
+		callback.mockClear();
+
+		countStore.set(3);
+		await nextTick();
+		expect(callback).not.toHaveBeenCalled();
+
+		countStore.set(4);
+		await nextTick();
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith("even", "odd");
+	});
+
+	it("should not glitch when sources update together", async () => {
+		const countStore = store(1);
+		const doubledStore = computed(countStore, (count) => count * 2);
+		const sumStore = computed(
+			[countStore, doubledStore],
+			(count, doubled) => count + doubled,
+		);
+		const callback = vi.fn();
+
+		sumStore.subscribe(callback);
+		callback.mockClear();
+
+		countStore.set(2);
+		await nextTick();
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith(6, 3);
+	});
+});
+
+describe("batch", () => {
+	it("should apply every set inside the callback", () => {
+		const formStore = store({ name: "Ada", email: "ada@example.com" });
+
+		batch(() => {
+			formStore.select("name").set("");
+			formStore.select("email").set("");
+		});
+
+		expect(formStore.get()).toEqual({ name: "", email: "" });
+	});
+
+	it("should read the latest value inside the callback", () => {
+		const countStore = store(0);
+
+		batch(() => {
+			countStore.set(1);
+			countStore.set((count) => count + 1);
+			expect(countStore.get()).toBe(2);
+		});
+
+		expect(countStore.get()).toBe(2);
+	});
+
+	it("should return the callback result", () => {
+		const countStore = store(0);
+		const result = batch(() => {
+			countStore.set(1);
+			return "done";
+		});
+
+		expect(result).toBe("done");
+	});
+
+	it("should run middleware once with the final state", () => {
+		const transitions: Array<[unknown, unknown]> = [];
+		const logger: StoreMiddleware<{ name: string; email: string }> = (api) => ({
+			set: (next) => (setter) => {
+				const prev = api.get();
+				next(setter);
+				transitions.push([prev, api.get()]);
+			},
+		});
+		const formStore = store(
+			{ name: "Ada", email: "ada@example.com" },
+			{ middleware: [logger] },
+		);
+
+		batch(() => {
+			formStore.select("name").set("");
+			formStore.select("email").set("");
+		});
+
+		expect(transitions).toEqual([
+			[
+				{ name: "Ada", email: "ada@example.com" },
+				{ name: "", email: "" },
+			],
+		]);
+	});
+
+	it("should skip middleware when the final state is unchanged", () => {
+		const setSpy = vi.fn();
+		const spy: StoreMiddleware<number> = () => ({
+			set: (next) => (setter) => {
+				setSpy();
+				next(setter);
+			},
+		});
+		const countStore = store(0, { middleware: [spy] });
+
+		batch(() => {
+			countStore.set(1);
+			countStore.set(0);
+		});
+
+		expect(setSpy).not.toHaveBeenCalled();
+	});
+
+	it("should run selected store middleware once with the final state", () => {
+		const transitions: Array<[unknown, unknown]> = [];
+		const logger: StoreMiddleware<string> = (api) => ({
+			set: (next) => (setter) => {
+				const prev = api.get();
+				next(setter);
+				transitions.push([prev, api.get()]);
+			},
+		});
+		const formStore = store({ name: "Ada", email: "ada@example.com" });
+		const nameStore = formStore.select("name", { middleware: [logger] });
+
+		batch(() => {
+			nameStore.set("Grace");
+			nameStore.set("Linus");
+			nameStore.set("Barbara");
+		});
+
+		expect(transitions).toEqual([["Ada", "Barbara"]]);
+		expect(formStore.get()).toEqual({
+			name: "Barbara",
+			email: "ada@example.com",
+		});
+	});
+
+	it("should apply the value selected store middleware commits", () => {
+		const formStore = store({ name: "Ada", email: "ada@example.com" });
+		const nameStore = formStore.select("name", {
+			middleware: [
+				() => ({
+					set: (next) => (setter) => {
+						next((name) => {
+							const value =
+								typeof setter === "function" ? setter(name) : setter;
+							return value.toUpperCase();
+						});
+					},
+				}),
+			],
+		});
+
+		batch(() => {
+			nameStore.set("Grace");
+			formStore.select("email").set("grace@example.com");
+		});
+
+		expect(formStore.get()).toEqual({
+			name: "GRACE",
+			email: "grace@example.com",
+		});
+	});
+
+	it("should run root middleware once when selected store middleware commits", () => {
+		const setSpy = vi.fn();
+		const spy: StoreMiddleware<{ name: string }> = () => ({
+			set: (next) => (setter) => {
+				setSpy();
+				next(setter);
+			},
+		});
+		const formStore = store({ name: "Ada" }, { middleware: [spy] });
+		const nameStore = formStore.select("name", {
+			middleware: [() => ({ set: (next) => next })],
+		});
+
+		batch(() => {
+			nameStore.set("Grace");
+			nameStore.set("Linus");
+		});
+
+		expect(setSpy).toHaveBeenCalledTimes(1);
+		expect(formStore.get()).toEqual({ name: "Linus" });
+	});
+
+	it("should roll back selected stores without running their middleware", () => {
+		const setSpy = vi.fn();
+		const spy: StoreMiddleware<string> = () => ({
+			set: (next) => (setter) => {
+				setSpy();
+				next(setter);
+			},
+		});
+		const formStore = store({ name: "Ada" });
+		const nameStore = formStore.select("name", { middleware: [spy] });
+
+		expect(() =>
+			batch(
+				() => {
+					nameStore.set("Grace");
+					throw new Error("Failed");
+				},
+				{ rollback: true },
+			),
+		).toThrow("Failed");
+
+		expect(setSpy).not.toHaveBeenCalled();
+		expect(formStore.get()).toEqual({ name: "Ada" });
+	});
+
+	it("should notify subscribers once across stores", async () => {
+		const nameStore = store("Ada");
+		const emailStore = store("ada@example.com");
+		const fullStore = computed(
+			[nameStore, emailStore],
+			(name, email) => `${name} <${email}>`,
+		);
+		const callback = vi.fn();
+
+		fullStore.subscribe(callback);
+		callback.mockClear();
+
+		batch(() => {
+			nameStore.set("Grace");
+			emailStore.set("grace@example.com");
+		});
+		await nextTick();
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith(
+			"Grace <grace@example.com>",
+			"Ada <ada@example.com>",
+		);
+	});
+
+	it("should commit nested batches with the outermost batch", () => {
+		const setSpy = vi.fn();
+		const spy: StoreMiddleware<number> = () => ({
+			set: (next) => (setter) => {
+				setSpy();
+				next(setter);
+			},
+		});
+		const countStore = store(0, { middleware: [spy] });
+
+		batch(() => {
+			countStore.set(1);
+			batch(() => {
+				countStore.set(2);
+			});
+			expect(setSpy).not.toHaveBeenCalled();
+		});
+
+		expect(setSpy).toHaveBeenCalledTimes(1);
+		expect(countStore.get()).toBe(2);
+	});
+
+	it("should commit writes before an error by default", () => {
+		const countStore = store(0);
+
+		expect(() =>
+			batch(() => {
+				countStore.set(1);
+				throw new Error("Failed");
+			}),
+		).toThrow("Failed");
+
+		expect(countStore.get()).toBe(1);
+	});
+
+	it("should roll back every write when the callback throws", () => {
+		const setSpy = vi.fn();
+		const spy: StoreMiddleware<{ name: string; email: string }> = () => ({
+			set: (next) => (setter) => {
+				setSpy();
+				next(setter);
+			},
+		});
+		const formStore = store(
+			{ name: "Ada", email: "ada@example.com" },
+			{ middleware: [spy] },
+		);
+		const countStore = store(0);
+
+		expect(() =>
+			batch(
+				() => {
+					formStore.select("name").set("");
+					countStore.set(1);
+					throw new Error("Failed");
+				},
+				{ rollback: true },
+			),
+		).toThrow("Failed");
+
+		expect(formStore.get()).toEqual({ name: "Ada", email: "ada@example.com" });
+		expect(countStore.get()).toBe(0);
+		expect(setSpy).not.toHaveBeenCalled();
+	});
+
+	it("should only roll back the nested batch that threw", () => {
+		const countStore = store(0);
+
+		batch(() => {
+			countStore.set(1);
+			try {
+				batch(
+					() => {
+						countStore.set(2);
+						throw new Error("Failed");
+					},
+					{ rollback: true },
+				);
+			} catch {}
+			expect(countStore.get()).toBe(1);
+		});
+
+		expect(countStore.get()).toBe(1);
+	});
+});
+
+describe("equals option", () => {
+	it("should keep the previous state when the next state is equal", () => {
+		const initial = { name: "Ada", tags: ["admin"] };
+		const userStore = store(initial, { equals: shallow });
+
+		userStore.set({ ...initial });
+		expect(userStore.get()).toBe(initial);
+
+		userStore.set({ ...initial, name: "Grace" });
+		expect(userStore.get()).toEqual({ name: "Grace", tags: ["admin"] });
+	});
+
+	it("should not notify subscribers for equal states", async () => {
+		const userStore = store(
+			{ name: "Ada" },
+			{ equals: (a, b) => a.name === b.name },
+		);
+		const callback = vi.fn();
+
+		userStore.subscribe(callback);
+		callback.mockClear();
+
+		userStore.set({ name: "Ada" });
+		await nextTick();
+		expect(callback).not.toHaveBeenCalled();
+
+		userStore.set({ name: "Grace" });
+		await nextTick();
+		expect(callback).toHaveBeenCalledWith({ name: "Grace" }, { name: "Ada" });
+	});
+
+	it("should skip selected subscribers when the selected value is equal", async () => {
+		const documentStore = store({ title: "Untitled", tags: ["draft"] });
+		const tagsStore = documentStore.select("tags", { equals: shallow });
+		const callback = vi.fn();
+
+		tagsStore.subscribe(callback);
+		callback.mockClear();
+
+		documentStore.set((state) => ({ ...state, tags: ["draft"] }));
+		await nextTick();
+		expect(callback).not.toHaveBeenCalled();
+
+		documentStore.set((state) => ({ ...state, tags: ["draft", "new"] }));
+		await nextTick();
+		expect(callback).toHaveBeenCalledWith(["draft", "new"], ["draft"]);
+	});
+
+	it("should discard selected sets that are equal", () => {
+		const initial = { title: "Untitled", tags: ["draft"] };
+		const documentStore = store(initial);
+		const tagsStore = documentStore.select("tags", { equals: shallow });
+
+		tagsStore.set(["draft"]);
+
+		expect(documentStore.get()).toBe(initial);
+	});
+});
+
+describe("dehydrate and hydrate", () => {
+	it("should round-trip store state", () => {
+		const userStore = store({ name: "Ada" });
+		const countStore = store(3);
+		const snapshot = dehydrate({ user: userStore, count: countStore });
+
+		const clientUserStore = store({ name: "" });
+		const clientCountStore = store(0);
+		hydrate({ user: clientUserStore, count: clientCountStore }, snapshot);
+
+		expect(clientUserStore.get()).toEqual({ name: "Ada" });
+		expect(clientCountStore.get()).toBe(3);
+	});
+
+	it("should preserve Dates, Maps, Sets, and undefined", () => {
+		const createdAt = new Date("2024-01-01T00:00:00.000Z");
+		const state = {
+			createdAt,
+			invalid: new Date(Number.NaN),
+			cache: new Map([[1, { tags: new Set(["a", "b"]) }]]),
+			note: undefined as string | undefined,
+			list: [undefined, 1],
+		};
+		const snapshot = dehydrate({ state: store(state) });
+
+		const clientStore = store<typeof state>({
+			createdAt: new Date(0),
+			invalid: new Date(0),
+			cache: new Map(),
+			note: "draft",
+			list: [],
+		});
+		hydrate({ state: clientStore }, snapshot);
+
+		const hydrated = clientStore.get();
+		expect(hydrated.createdAt).toBeInstanceOf(Date);
+		expect(hydrated.createdAt.toISOString()).toBe(createdAt.toISOString());
+		expect(Number.isNaN(hydrated.invalid.getTime())).toBe(true);
+		expect(hydrated.cache).toEqual(state.cache);
+		expect(hydrated.cache.get(1)?.tags).toBeInstanceOf(Set);
+		expect("note" in hydrated).toBe(true);
+		expect(hydrated.note).toBeUndefined();
+		expect(hydrated.list).toEqual([undefined, 1]);
+	});
+
+	it("should preserve objects with a $type key", () => {
+		const state = { $type: "Date", value: "not a date" };
+		const clientStore = store({ $type: "", value: "" });
+
+		hydrate({ state: clientStore }, dehydrate({ state: store(state) }));
+
+		expect(clientStore.get()).toEqual(state);
+	});
+
+	it("should escape HTML in the snapshot", () => {
+		const snapshot = dehydrate({ bio: store("</script><script>alert(1)") });
+
+		expect(snapshot).not.toContain("</script>");
+
+		const clientStore = store("");
+		hydrate({ bio: clientStore }, snapshot);
+		expect(clientStore.get()).toBe("</script><script>alert(1)");
+	});
+
+	it("should keep the initial state", () => {
+		const countStore = store(0);
+
+		hydrate({ count: countStore }, dehydrate({ count: store(5) }));
+
+		expect(countStore.get()).toBe(5);
+		expect(countStore.getInitial()).toBe(0);
+		expect(countStore.select).toBe(undefined);
+	});
+
+	it("should skip middleware while hydrating", () => {
+		const setSpy = vi.fn();
+		const spy: StoreMiddleware<number> = () => ({
+			set: (next) => (setter) => {
+				setSpy();
+				next(setter);
+			},
+		});
+		const countStore = store(0, { middleware: [spy] });
+
+		hydrate({ count: countStore }, dehydrate({ count: store(5) }));
+
+		expect(countStore.get()).toBe(5);
+		expect(setSpy).not.toHaveBeenCalled();
+	});
+
+	it("should notify sync and patch subscribers", () => {
+		const documentStore = store({ title: "Untitled" });
+		const callback = vi.fn();
+		const patchCallback = vi.fn();
+		documentStore.subscribe(callback, { sync: true, fireImmediately: false });
+		documentStore.subscribePatches(patchCallback);
+
+		hydrate(
+			{ document: documentStore },
+			dehydrate({ document: store({ title: "Notes" }) }),
+		);
+
+		expect(callback).toHaveBeenCalledWith(
+			{ title: "Notes" },
+			{ title: "Untitled" },
+		);
+		expect(patchCallback).toHaveBeenCalledWith(
+			[{ op: "replace", path: "/title", value: "Notes" }],
+			[{ op: "replace", path: "/title", value: "Untitled" }],
+		);
+	});
+
+	it("should set selected stores", () => {
+		const documentStore = store({ title: "Untitled" });
+
+		hydrate(
+			{ title: documentStore.select("title") },
+			dehydrate({ title: store("Notes") }),
+		);
+
+		expect(documentStore.get()).toEqual({ title: "Notes" });
+	});
+
+	it("should read initial states from replaced states without changing stores", () => {
+		const documentStore = store({ title: "Untitled" });
+		const titleStore = documentStore.select("title");
+		const headingStore = computed(titleStore, (title) => title.toUpperCase());
+		const states = new Map([[documentStore, { title: "Notes" }]]);
+
+		expect(getInitialWith(titleStore, states)).toBe("Notes");
+		expect(getInitialWith(headingStore, states)).toBe("NOTES");
+		expect(titleStore.getInitial()).toBe("Untitled");
+		expect(headingStore.getInitial()).toBe("UNTITLED");
+	});
+
+	it("should not call the factory of replaced lazy stores", () => {
+		const factory = vi.fn(() => 0);
+		const countStore = store(factory);
+
+		expect(getInitialWith(countStore, new Map([[countStore, 5]]))).toBe(5);
+		expect(factory).not.toHaveBeenCalled();
+	});
+
+	it("should ignore stores missing from the snapshot", () => {
+		const countStore = store(1);
+
+		hydrate({ count: countStore }, dehydrate({}));
+
+		expect(countStore.get()).toBe(1);
+	});
+});
+
+describe("lazy initialization", () => {
+	it("should not call the factory until the store is read", () => {
+		const factory = vi.fn(() => ({ theme: "dark" }));
+		const configStore = store(factory);
+
+		expect(factory).not.toHaveBeenCalled();
+		expect(configStore.get()).toEqual({ theme: "dark" });
+		expect(factory).toHaveBeenCalledTimes(1);
+	});
+
+	it("should call the factory once and return the same initial state", () => {
+		const factory = vi.fn(() => ({ items: [1, 2, 3] }));
+		const listStore = store(factory);
+
+		const initial = listStore.getInitial();
+		expect(listStore.get()).toBe(initial);
+		listStore.set({ items: [] });
+
+		expect(listStore.getInitial()).toBe(initial);
+		expect(listStore.get()).toEqual({ items: [] });
+		expect(factory).toHaveBeenCalledTimes(1);
+	});
+
+	it("should infer the store type from the factory", () => {
+		const countStore: Store<number> = store(() => 1);
+		const titleStore: Store<string> = store(() => "Untitled");
+
+		expect(countStore.get()).toBe(1);
+		expect(titleStore.get()).toBe("Untitled");
+	});
+
+	it("should initialize on subscribe", async () => {
+		const factory = vi.fn(() => 1);
+		const countStore = store(factory);
+		const callback = vi.fn();
+
+		countStore.subscribe(callback);
+		expect(callback).toHaveBeenCalledWith(1, undefined);
+
+		countStore.set((count) => count + 1);
+		await nextTick();
+
+		expect(callback).toHaveBeenLastCalledWith(2, 1);
+		expect(factory).toHaveBeenCalledTimes(1);
+	});
+
+	it("should not initialize when selecting", () => {
+		const factory = vi.fn(() => ({ user: { name: "Ada" } }));
+		const appStore = store(factory);
+		const nameStore = appStore.select("user", "name");
+
+		expect(factory).not.toHaveBeenCalled();
+		expect(nameStore.get()).toBe("Ada");
+		expect(nameStore.getInitial()).toBe("Ada");
+
+		nameStore.set("Grace");
+		expect(appStore.get()).toEqual({ user: { name: "Grace" } });
+		expect(factory).toHaveBeenCalledTimes(1);
+	});
+
+	it("should not have select once a primitive state is computed", () => {
+		const factory = vi.fn(() => 0);
+		const countStore = store(factory);
+
+		expect(countStore.select).toBeTypeOf("function");
+		expect(factory).not.toHaveBeenCalled();
+
+		countStore.get();
+
+		expect(countStore.select).toBeUndefined();
+		expect(countStore.select).toBe(store(0).select);
+	});
+
+	it("should keep select once an object state is computed", () => {
+		const appStore = store(() => ({ user: { name: "Ada" } }));
+
+		appStore.get();
+
+		expect(appStore.select("user", "name").get()).toBe("Ada");
+	});
+
+	it("should initialize when first read inside a computed store", () => {
+		const countStore = store(() => 2);
+		const doubled = computed(countStore, (count) => count * 2);
+
+		expect(doubled.get()).toBe(4);
+
+		countStore.set(3);
+		expect(doubled.get()).toBe(6);
+	});
+
+	it("should skip updates equal to the lazy initial state", async () => {
+		const userStore = store(() => ({ name: "Ada" }), { equals: shallow });
+		const callback = vi.fn();
+		userStore.subscribe(callback);
+
+		userStore.set({ name: "Ada" });
+		await nextTick();
+
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	it("should use the hydrated state instead of calling the factory", () => {
+		const factory = vi.fn(() => 0);
+		const countStore = store(factory);
+
+		hydrate({ count: countStore }, dehydrate({ count: store(5) }));
+
+		expect(countStore.get()).toBe(5);
+		expect(factory).not.toHaveBeenCalled();
+	});
+});
+
+describe("reset", () => {
+	it("should restore the initial state", () => {
+		const countStore = store(0);
+		countStore.set(5);
+
+		countStore.reset();
+
+		expect(countStore.get()).toBe(0);
+	});
+
+	it("should notify subscribers", async () => {
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.set(5);
+		countStore.subscribe(callback);
+
+		countStore.reset();
+		await nextTick();
+
+		expect(callback).toHaveBeenLastCalledWith(0, 5);
+	});
+
+	it("should only restore the selected path", () => {
+		const formStore = store({
+			user: { name: "", email: "" },
+			submitted: false,
+		});
+		formStore.set({
+			user: { name: "Ada", email: "ada@example.com" },
+			submitted: true,
+		});
+
+		formStore.select("user", "email").reset();
+
+		expect(formStore.get()).toEqual({
+			user: { name: "Ada", email: "" },
+			submitted: true,
+		});
+	});
+
+	it("should remove paths missing from the initial state", () => {
+		const documentStore = store<{
+			list: string[];
+			meta: Record<string, string>;
+			users: Map<string, string>;
+		}>({ list: [], meta: {}, users: new Map() });
+		documentStore.set({
+			list: ["a"],
+			meta: { author: "Ada" },
+			users: new Map([["ada", "Ada"]]),
+		});
+
+		documentStore.select("list", 0).reset();
+		documentStore.select("meta", "author").reset();
+		documentStore.select("users", "ada").reset();
+
+		expect(documentStore.get().list).toHaveLength(0);
+		expect(documentStore.get().meta).not.toHaveProperty("author");
+		expect(documentStore.get().users.has("ada")).toBe(false);
+	});
+
+	it("should restore the initial state after hydrating", () => {
+		const userStore = store({ name: "" });
+		hydrate({ user: userStore }, dehydrate({ user: store({ name: "Ada" }) }));
+		userStore.set({ name: "Grace" });
+
+		resetAllStores();
+
+		expect(userStore.get()).toEqual({ name: "" });
+	});
+
+	it("should be undone when a rolled back batch throws", () => {
+		const countStore = store(0);
+		countStore.set(5);
+
+		expect(() =>
+			batch(
+				() => {
+					countStore.reset();
+					throw new Error("Failed");
+				},
+				{ rollback: true },
+			),
+		).toThrow("Failed");
+
+		expect(countStore.get()).toBe(5);
+	});
+
+	it("should run reset middleware, then apply the reset through set middleware", () => {
+		const calls: string[] = [];
+		const tracker: StoreMiddleware<number> = () => ({
+			set: (next) => (setter) => {
+				calls.push("set");
+				next(setter);
+			},
+			reset: (next) => () => {
+				calls.push("reset:before");
+				next();
+				calls.push("reset:after");
+			},
+		});
+		const countStore = store(0, { middleware: [tracker] });
+		countStore.set(5);
+		calls.length = 0;
+
+		countStore.reset();
+
+		expect(calls).toEqual(["reset:before", "set", "reset:after"]);
+		expect(countStore.get()).toBe(0);
+	});
+
+	it("should run reset middleware on selected stores", () => {
+		const resetSpy = vi.fn();
+		const documentStore = store({ title: "Untitled" });
+		const titleStore = documentStore.select("title", {
+			middleware: [
+				() => ({
+					reset: (next) => () => {
+						resetSpy();
+						next();
+					},
+				}),
+			],
+		});
+		titleStore.set("Notes");
+
+		titleStore.reset();
+
+		expect(resetSpy).toHaveBeenCalledTimes(1);
+		expect(documentStore.get()).toEqual({ title: "Untitled" });
+	});
+});
+
+describe("resetAllStores", () => {
+	it("should restore the initial state of every store", () => {
+		const countStore = store(0);
+		const userStore = store({ name: "", loggedIn: false });
+		countStore.set(3);
+		userStore.set({ name: "Ada", loggedIn: true });
+
+		resetAllStores();
+
+		expect(countStore.get()).toBe(0);
+		expect(userStore.get()).toEqual({ name: "", loggedIn: false });
+	});
+
+	it("should run reset middleware", () => {
+		const resetSpy = vi.fn();
+		const countStore = store(0, {
+			middleware: [
+				() => ({
+					reset: (next) => () => {
+						resetSpy();
+						next();
+					},
+				}),
+			],
+		});
+		countStore.set(3);
+
+		resetAllStores();
+
+		expect(resetSpy).toHaveBeenCalled();
+		expect(countStore.get()).toBe(0);
+	});
+});
+
+describe("subscribePatches", () => {
+	it("should emit patches and inverse patches for each update", () => {
+		const documentStore = store({ title: "Untitled", tags: ["draft"] });
+		const callback = vi.fn();
+		documentStore.subscribePatches(callback);
+
+		documentStore.set((state) => ({ ...state, title: "Notes" }));
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith(
+			[{ op: "replace", path: "/title", value: "Notes" }],
+			[{ op: "replace", path: "/title", value: "Untitled" }],
+		);
+	});
+
+	it("should emit patches for updates from selected stores", () => {
+		const documentStore = store({ title: "Untitled", tags: ["draft"] });
+		const callback = vi.fn();
+		documentStore.subscribePatches(callback);
+
+		documentStore.select("tags").set((tags) => [...tags, "final"]);
+
+		expect(callback).toHaveBeenCalledWith(
+			[{ op: "add", path: "/tags/1", value: "final" }],
+			[{ op: "remove", path: "/tags/1" }],
+		);
+	});
+
+	it("should replace Maps as a whole and emit patches within Map-keyed selected stores", () => {
+		const teamStore = store({
+			users: new Map([["ada", { name: "Ada", role: "admin" }]]),
+		});
+		const rootCallback = vi.fn();
+		const userCallback = vi.fn();
+		teamStore.subscribePatches(rootCallback);
+		teamStore.select("users", "ada").subscribePatches(userCallback);
+
+		teamStore.select("users", "ada", "name").set("Grace");
+
+		const [[patches]] = rootCallback.mock.calls;
+		expect(patches).toEqual([
+			{ op: "replace", path: "/users", value: teamStore.get().users },
+		]);
+		expect(patches[0].value).toBeInstanceOf(Map);
+		expect(userCallback).toHaveBeenCalledWith(
+			[{ op: "replace", path: "/name", value: "Grace" }],
+			[{ op: "replace", path: "/name", value: "Ada" }],
+		);
+	});
+
+	it("should emit patches for every path changed by produce", () => {
+		const documentStore = store({
+			title: "Untitled",
+			meta: { tags: ["draft"], views: 0 },
+		});
+		const callback = vi.fn();
+		documentStore.subscribePatches(callback);
+
+		documentStore.set(
+			produce((draft) => {
+				draft.title = "Notes";
+				draft.meta.tags.push("final");
+				draft.meta.views++;
+			}),
+		);
+
+		expect(callback.mock.calls[0][0]).toEqual([
+			{ op: "replace", path: "/title", value: "Notes" },
+			{ op: "add", path: "/meta/tags/1", value: "final" },
+			{ op: "replace", path: "/meta/views", value: 1 },
+		]);
+	});
+
+	it("should emit paths relative to selected stores", () => {
+		const appStore = store({
+			user: { name: "Ada", tags: [] as string[] },
+			theme: "dark",
+		});
+		const callback = vi.fn();
+		appStore.select("user").subscribePatches(callback);
+
+		appStore.select("theme").set("light");
+		expect(callback).not.toHaveBeenCalled();
+
+		appStore.select("user", "name").set("Grace");
+		expect(callback).toHaveBeenCalledWith(
+			[{ op: "replace", path: "/name", value: "Grace" }],
+			[{ op: "replace", path: "/name", value: "Ada" }],
+		);
+	});
+
+	it("should not emit patches for updates that change nothing", () => {
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribePatches(callback);
+
+		countStore.set(0);
+
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	it("should emit once after a batch", () => {
+		const documentStore = store({ title: "Untitled", views: 0 });
+		const callback = vi.fn();
+		documentStore.subscribePatches(callback);
+
+		batch(() => {
+			documentStore.select("title").set("Notes");
+			documentStore.select("views").set(1);
+			documentStore.select("views").set(2);
+		});
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback.mock.calls[0][0]).toEqual([
+			{ op: "replace", path: "/title", value: "Notes" },
+			{ op: "replace", path: "/views", value: 2 },
+		]);
+	});
+
+	it("should not emit patches for a rolled back batch", () => {
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribePatches(callback);
+
+		expect(() =>
+			batch(
+				() => {
+					countStore.set(1);
+					throw new Error("Failed");
+				},
+				{ rollback: true },
+			),
+		).toThrow("Failed");
+
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	it("should stop emitting after unsubscribing", () => {
+		const countStore = store(0);
+		const callback = vi.fn();
+		const unsubscribe = countStore.subscribePatches(callback);
+
+		unsubscribe();
+		countStore.set(1);
+
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	it("should undo an update with the inverse patches", () => {
+		const documentStore = store({ title: "Untitled", tags: ["draft"] });
+		let undo: JsonPatch[] = [];
+		documentStore.subscribePatches((_, inversePatches) => {
+			undo = inversePatches;
+		});
+
+		documentStore.set({ title: "Notes", tags: [] });
+		documentStore.set((state) => applyPatches(state, undo));
+
+		expect(documentStore.get()).toEqual({ title: "Untitled", tags: ["draft"] });
+	});
+});
+
+describe("select on Map and Set state", () => {
+	type User = { name: string; tags: string[] };
+
+	const createCache = () =>
+		store({
+			users: new Map<string, User>([["ada", { name: "Ada", tags: [] }]]),
+			pinned: new Set<string>(["ada"]),
+		});
+
+	it("should select Map values by key", () => {
+		const cacheStore = createCache();
+		const adaStore: Store<User | undefined> = cacheStore.select("users", "ada");
+		const nameStore: Store<string | undefined> = cacheStore.select(
+			"users",
+			"ada",
+			"name",
+		);
+
+		expect(adaStore.get()).toEqual({ name: "Ada", tags: [] });
+		expect(nameStore.get()).toBe("Ada");
+		expect(cacheStore.select("users", "grace").get()).toBeUndefined();
+	});
+
+	it("should set Map values on a copy of the Map", () => {
+		const cacheStore = createCache();
+		const { users } = cacheStore.get();
+		const ada = users.get("ada");
+
+		cacheStore.select("users", "ada", "name").set("Ada Lovelace");
+
+		const nextUsers = cacheStore.get().users;
+		expect(nextUsers).not.toBe(users);
+		expect(nextUsers).toBeInstanceOf(Map);
+		expect(nextUsers.get("ada")).toEqual({ name: "Ada Lovelace", tags: [] });
+		expect(users.get("ada")).toBe(ada);
+		expect(ada?.name).toBe("Ada");
+	});
+
+	it("should discard sets for missing Map keys", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const cacheStore = createCache();
+		const state = cacheStore.get();
+
+		cacheStore.select("users", "grace").set({ name: "Grace", tags: [] });
+		cacheStore.select("users", "grace", "name").set("Grace");
+
+		expect(cacheStore.get()).toBe(state);
+		if (DEV) expect(warn).toHaveBeenCalled();
+	});
+
+	it("should select Set membership as a boolean", () => {
+		const cacheStore = createCache();
+		const adaPinned: Store<boolean> = cacheStore.select("pinned", "ada");
+
+		expect(adaPinned.get()).toBe(true);
+		expect(cacheStore.select("pinned", "grace").get()).toBe(false);
+	});
+
+	it("should add and delete Set values on a copy of the Set", () => {
+		const cacheStore = createCache();
+		const { pinned } = cacheStore.get();
+
+		cacheStore.select("pinned", "grace").set(true);
+		expect([...cacheStore.get().pinned]).toEqual(["ada", "grace"]);
+
+		cacheStore.select("pinned", "ada").set((isPinned) => !isPinned);
+		expect([...cacheStore.get().pinned]).toEqual(["grace"]);
+		expect([...pinned]).toEqual(["ada"]);
+	});
+
+	it("should skip Set updates that do not change membership", () => {
+		const cacheStore = createCache();
+		const state = cacheStore.get();
+
+		cacheStore.select("pinned", "ada").set(true);
+
+		expect(cacheStore.get()).toBe(state);
+	});
+
+	it("should notify subscribers of the selected key only", async () => {
+		const cacheStore = store(
+			new Map<string, number>([
+				["a", 1],
+				["b", 2],
+			]),
+		);
+		const aCallback = vi.fn();
+		const bCallback = vi.fn();
+		cacheStore.select("a").subscribe(aCallback);
+		cacheStore.select("b").subscribe(bCallback);
+
+		cacheStore.select("a").set(10);
+		await nextTick();
+
+		expect(aCallback).toHaveBeenLastCalledWith(10, 1);
+		expect(bCallback).toHaveBeenCalledTimes(1);
+	});
+
+	it("should reset a selected Map key", () => {
+		const cacheStore = createCache();
+
+		cacheStore.select("users", "ada", "tags").set(["admin"]);
+		cacheStore.select("users", "ada").reset();
+
+		expect(cacheStore.get().users.get("ada")).toEqual({
+			name: "Ada",
+			tags: [],
+		});
+	});
+});
+
+describe("lens", () => {
+	type Todo = { id: number; text: string; done: boolean };
+
+	const todoById = (id: number): Lens<Todo[], Todo | undefined> => ({
+		get: (todos) => todos.find((todo) => todo.id === id),
+		set: (todos, next) =>
+			next ? todos.map((todo) => (todo.id === id ? next : todo)) : todos,
+	});
+
+	const createTodos = () =>
+		store<Todo[]>([
+			{ id: 1, text: "Write docs", done: false },
+			{ id: 2, text: "Ship it", done: false },
+		]);
+
+	it("should get the view of the state", () => {
+		const todosStore = createTodos();
+		const todoStore: Store<Todo | undefined> = todosStore.lens(todoById(2));
+
+		expect(todoStore.get()).toEqual({ id: 2, text: "Ship it", done: false });
+		expect(todoStore.getInitial()).toBe(todosStore.getInitial()[1]);
+	});
+
+	it("should write back through the parent", () => {
+		const todosStore = createTodos();
+		const todoStore = todosStore.lens(todoById(2));
+
+		todoStore.set((todo) => todo && { ...todo, done: true });
+
+		expect(todosStore.get()[1].done).toBe(true);
+		expect(todoStore.get()?.done).toBe(true);
+	});
+
+	it("should support converting views", () => {
+		const temperatureStore = store({ fahrenheit: 32 });
+		const celsiusStore = temperatureStore.lens({
+			get: (state) => ((state.fahrenheit - 32) * 5) / 9,
+			set: (state, celsius) => ({
+				...state,
+				fahrenheit: (celsius * 9) / 5 + 32,
+			}),
+		});
+
+		expect(celsiusStore.get()).toBe(0);
+
+		celsiusStore.set(100);
+		expect(temperatureStore.get()).toEqual({ fahrenheit: 212 });
+
+		celsiusStore.set((celsius) => celsius - 100);
+		expect(temperatureStore.get()).toEqual({ fahrenheit: 32 });
+	});
+
+	it("should memoize the view until the parent changes", () => {
+		const todosStore = createTodos();
+		const getView = vi.fn((todos: Todo[]) =>
+			todos.filter((todo) => !todo.done),
+		);
+		const openStore = todosStore.lens({
+			get: getView,
+			set: (todos, open) => [...open, ...todos.filter((todo) => todo.done)],
+		});
+
+		const first = openStore.get();
+		expect(openStore.get()).toBe(first);
+		expect(getView).toHaveBeenCalledTimes(1);
+
+		todosStore.select(0, "done").set(true);
+		expect(openStore.get()).toEqual([{ id: 2, text: "Ship it", done: false }]);
+	});
+
+	it("should select from the view", () => {
+		const todosStore = createTodos();
+		const textStore: Store<string | undefined> = todosStore
+			.lens(todoById(1))
+			.select("text");
+
+		textStore.set("Write more docs");
+
+		expect(todosStore.get()[0].text).toBe("Write more docs");
+	});
+
+	it("should skip updates that leave the view unchanged", () => {
+		const todosStore = createTodos();
+		const state = todosStore.get();
+		const todoStore = todosStore.lens(todoById(1));
+
+		todoStore.set(todoStore.get());
+
+		expect(todosStore.get()).toBe(state);
+	});
+
+	it("should notify subscribers when the view changes", async () => {
+		const todosStore = createTodos();
+		const callback = vi.fn();
+		todosStore.lens(todoById(1)).subscribe(callback);
+
+		todosStore.select(1, "done").set(true);
+		await nextTick();
+		expect(callback).toHaveBeenCalledTimes(1);
+
+		todosStore.select(0, "done").set(true);
+		await nextTick();
+		expect(callback).toHaveBeenCalledTimes(2);
+		expect(callback).toHaveBeenLastCalledWith(
+			{ id: 1, text: "Write docs", done: true },
+			{ id: 1, text: "Write docs", done: false },
+		);
+	});
+
+	it("should use the equals option", async () => {
+		const todosStore = createTodos();
+		const openStore = todosStore.lens(
+			{
+				get: (todos) => todos.filter((todo) => !todo.done),
+				set: (todos, open) => [...open, ...todos.filter((todo) => todo.done)],
+			},
+			{ equals: shallow },
+		);
+		const callback = vi.fn();
+		openStore.subscribe(callback);
+
+		todosStore.select(0, "text").set("Write docs");
+		todosStore.set((todos) => [...todos]);
+		await nextTick();
+
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	it("should emit patches relative to the view", () => {
+		const todosStore = createTodos();
+		const callback = vi.fn();
+		todosStore.lens(todoById(2)).subscribePatches(callback);
+
+		todosStore.select(1, "done").set(true);
+
+		expect(callback).toHaveBeenCalledWith(
+			[{ op: "replace", path: "/done", value: true }],
+			[{ op: "replace", path: "/done", value: false }],
+		);
+	});
+});
+
+describe("select with dot-notation paths", () => {
+	const createDocument = () =>
+		store({
+			title: "Untitled",
+			meta: {
+				tags: ["draft"],
+				author: { name: "Ada" } as { name: string } | null,
+			},
+			users: new Map([["ada", { name: "Ada" }]]),
+			comments: {} as Record<string, { text: string }>,
+		});
+
+	it("should select nested keys", () => {
+		const documentStore = createDocument();
+		const nameStore: Store<string | undefined> =
+			documentStore.select("meta.author.name");
+
+		expect(nameStore.get()).toBe("Ada");
+		expect(documentStore.select("title").get()).toBe("Untitled");
+	});
+
+	it("should select array indices", () => {
+		const documentStore = createDocument();
+		const tagStore: Store<string | undefined> =
+			documentStore.select("meta.tags.0");
+
+		expect(tagStore.get()).toBe("draft");
+
+		tagStore.set("final");
+		expect(documentStore.get().meta.tags).toEqual(["final"]);
+	});
+
+	it("should select Map keys and index-signature keys", () => {
+		const documentStore = createDocument();
+		const userStore: Store<string | undefined> =
+			documentStore.select("users.ada.name");
+		const commentStore: Store<string | undefined> = documentStore.select(
+			"comments.first.text",
+		);
+
+		expect(userStore.get()).toBe("Ada");
+		expect(commentStore.get()).toBeUndefined();
+	});
+
+	it("should set nested keys through the parent", () => {
+		const documentStore = createDocument();
+
+		documentStore.select("meta.author.name").set("Grace");
+
+		expect(documentStore.get().meta.author).toEqual({ name: "Grace" });
+	});
+
+	it("should match the variadic form", () => {
+		const documentStore = createDocument();
+		documentStore.set((state) => ({
+			...state,
+			meta: { ...state.meta, author: null },
+		}));
+
+		const dotted = documentStore.select("meta.author.name");
+		const variadic = documentStore.select("meta", "author", "name");
+
+		expect(dotted.get()).toBe(variadic.get());
+		expect(dotted.get()).toBeUndefined();
+	});
+
+	it("should accept options", async () => {
+		const documentStore = createDocument();
+		const callback = vi.fn();
+		documentStore.select("meta.tags", { equals: shallow }).subscribe(callback);
+
+		documentStore.select("meta.tags").set(["draft"]);
+		await nextTick();
+
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	it("should prefer keys that contain dots", () => {
+		const versionsStore = store<Record<string, string>>({
+			"1.0": "stable",
+			"1": "legacy",
+		});
+
+		expect(versionsStore.select("1.0").get()).toBe("stable");
+	});
+
+	it("should reject paths that do not exist", () => {
+		const documentStore = createDocument();
+
+		// @ts-expect-error - "meta.missing" is not a path of the state
+		expect(documentStore.select("meta.missing").get()).toBeUndefined();
+		// @ts-expect-error - "title.length.value" is not a path of the state
+		expect(documentStore.select("title.length.value").get()).toBeUndefined();
+	});
+
+	it("should reject non-string Map keys", () => {
+		const scoresStore = store({ scores: new Map([[1, "gold"]]) });
+
+		// @ts-expect-error - dot paths cannot reach number Map keys
+		expect(scoresStore.select("scores.1").get()).toBeUndefined();
+		expect(scoresStore.select("scores", 1).get()).toBe("gold");
+	});
+
+	it("should not compute the initial state of lazy stores", () => {
+		const factory = vi.fn(() => ({
+			"1.0": "stable",
+			meta: { title: "Untitled" },
+		}));
+		const documentStore = store(factory);
+
+		const titleStore = documentStore.select("meta.title");
+		const versionStore = documentStore.select("1.0");
+		expect(factory).not.toHaveBeenCalled();
+
+		expect(titleStore.get()).toBe("Untitled");
+		expect(versionStore.get()).toBe("stable");
+
+		titleStore.set("Draft");
+		expect(documentStore.get().meta.title).toBe("Draft");
+	});
+});
+
+describe("select caching", () => {
+	it("should return the same store for the same path", () => {
+		const documentStore = store({
+			title: "Untitled",
+			meta: { tags: ["draft"] },
+		});
+
+		expect(documentStore.select("title")).toBe(documentStore.select("title"));
+		expect(documentStore.select("meta", "tags")).toBe(
+			documentStore.select("meta", "tags"),
+		);
+		expect(documentStore.select("meta", "tags")).toBe(
+			documentStore.select("meta.tags"),
+		);
+		expect(documentStore.select("meta", "tags", 0)).toBe(
+			documentStore.select("meta", "tags", 0),
+		);
+		expect(documentStore.select("meta")).not.toBe(
+			documentStore.select("meta", "tags"),
+		);
+	});
+
+	it("should return the same store for dot and variadic array indices", () => {
+		const documentStore = store({
+			meta: { tags: ["draft"] },
+			versions: new Map([["0", "initial"]]),
+		});
+
+		expect(documentStore.select("meta.tags.0")).toBe(
+			documentStore.select("meta", "tags", 0),
+		);
+		expect(documentStore.select("versions.0").get()).toBe("initial");
+		expect(documentStore.select("versions", "0")).toBe(
+			documentStore.select("versions.0"),
+		);
+	});
+
+	it("should cache per parent store", () => {
+		const documentStore = store({ meta: { title: "Untitled" } });
+
+		expect(documentStore.select("meta").select("title")).toBe(
+			documentStore.select("meta").select("title"),
+		);
+		expect(documentStore.select("meta").select("title")).not.toBe(
+			documentStore.select("meta", "title"),
+		);
+		expect(store({ title: "" }).select("title")).not.toBe(
+			store({ title: "" }).select("title"),
+		);
+	});
+
+	it("should keep number and string Map keys distinct", () => {
+		const labelsStore = store(
+			new Map<string | number, string>([
+				[1, "number"],
+				["1", "string"],
+			]),
+		);
+
+		expect(labelsStore.select(1).get()).toBe("number");
+		expect(labelsStore.select("1").get()).toBe("string");
+	});
+
+	it("should not cache stores selected with options", () => {
+		const documentStore = store({ tags: ["draft"] });
+
+		expect(documentStore.select("tags", { equals: shallow })).not.toBe(
+			documentStore.select("tags", { equals: shallow }),
+		);
+		expect(documentStore.select("tags", { equals: shallow })).not.toBe(
+			documentStore.select("tags"),
+		);
+	});
+
+	it("should return the same store for the same lens", () => {
+		const temperatureStore = store({ fahrenheit: 32 });
+		const celsius: Lens<{ fahrenheit: number }, number> = {
+			get: (state) => ((state.fahrenheit - 32) * 5) / 9,
+			set: (state, value) => ({ ...state, fahrenheit: (value * 9) / 5 + 32 }),
+		};
+
+		expect(temperatureStore.lens(celsius)).toBe(temperatureStore.lens(celsius));
+		expect(temperatureStore.lens(celsius, { equals: Object.is })).not.toBe(
+			temperatureStore.lens(celsius),
+		);
+	});
+});
+
+describe("subscribe options", () => {
+	it("should pass the previous state", async () => {
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback);
+
+		countStore.set(1);
+		await nextTick();
+		countStore.set(2);
+		await nextTick();
+
+		expect(callback.mock.calls).toEqual([
+			[0, undefined],
+			[1, 0],
+			[2, 1],
+		]);
+	});
+
+	it("should skip the immediate call when fireImmediately is false", async () => {
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback, { fireImmediately: false });
+		expect(callback).not.toHaveBeenCalled();
+
+		countStore.set(1);
+		await nextTick();
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith(1, 0);
+	});
+
+	it("should call back immediately for undefined states", () => {
+		const userStore = store<string | undefined>(undefined);
+		const callback = vi.fn();
+		userStore.subscribe(callback);
+
+		expect(callback).toHaveBeenCalledWith(undefined, undefined);
+	});
+
+	it("should only notify when the selected value changes", async () => {
+		const filtersStore = store({ query: "", page: 1 });
+		const callback = vi.fn();
+		filtersStore.subscribe(callback, {
+			selector: (filters) => filters.query.trim(),
+		});
+
+		filtersStore.set({ query: "  ", page: 2 });
+		await nextTick();
+		expect(callback).toHaveBeenCalledTimes(1);
+
+		filtersStore.set({ query: "ada", page: 2 });
+		await nextTick();
+		expect(callback).toHaveBeenCalledTimes(2);
+		expect(callback).toHaveBeenLastCalledWith("ada", "");
+	});
+
+	it("should compare selected values with the equals option", async () => {
+		const documentStore = store({ title: "Untitled", tags: ["draft"] });
+		const callback = vi.fn();
+		documentStore.subscribe(callback, {
+			selector: (state) => state.tags.filter((tag) => tag !== "archived"),
+			equals: shallow,
+			fireImmediately: false,
+		});
+
+		documentStore.set((state) => ({ ...state, title: "Notes" }));
+		await nextTick();
+		expect(callback).not.toHaveBeenCalled();
+
+		documentStore.set((state) => ({ ...state, tags: ["draft", "new"] }));
+		await nextTick();
+		expect(callback).toHaveBeenCalledWith(["draft", "new"], ["draft"]);
+	});
+
+	it("should override the store equals option", async () => {
+		const userStore = store(
+			{ name: "Ada", visits: 0 },
+			{ equals: (a, b) => a.name === b.name },
+		);
+		const callback = vi.fn();
+		userStore.subscribe(callback, {
+			equals: (a, b) => a.visits === b.visits,
+			fireImmediately: false,
+		});
+
+		userStore.set({ name: "Grace", visits: 0 });
+		await nextTick();
+		expect(callback).not.toHaveBeenCalled();
+
+		userStore.set({ name: "Ada", visits: 1 });
+		await nextTick();
+		expect(callback).toHaveBeenCalledWith(
+			{ name: "Ada", visits: 1 },
+			{ name: "Ada", visits: 0 },
+		);
+	});
+
+	it("should support options on computed stores", async () => {
+		const countStore = store(1);
+		const doubledStore = computed(countStore, (count) => count * 2);
+		const callback = vi.fn();
+		doubledStore.subscribe(callback, {
+			selector: (doubled) => doubled > 4,
+			fireImmediately: false,
+		});
+
+		countStore.set(2);
+		await nextTick();
+		expect(callback).not.toHaveBeenCalled();
+
+		countStore.set(3);
+		await nextTick();
+		expect(callback).toHaveBeenCalledWith(true, false);
+	});
+
+	it("should type the callback from the selector", () => {
+		const filtersStore = store({ query: "", page: 1 });
+
+		filtersStore.subscribe(
+			(page: number, prev: number | undefined) => {
+				expect(typeof page).toBe("number");
+				expect(prev).toBeUndefined();
+			},
+			{ selector: (filters) => filters.page },
+		);
+		// @ts-expect-error - the selected value is a number
+		filtersStore.subscribe((page: string) => page, {
+			selector: (filters) => filters.page,
+		});
+	});
+});
+
+describe("sync subscriptions", () => {
+	it("should notify before set() returns", async () => {
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback, { sync: true });
+
+		countStore.set(1);
+		expect(callback).toHaveBeenLastCalledWith(1, 0);
+
+		await nextTick();
+		expect(callback).toHaveBeenCalledTimes(2);
+	});
+
+	it("should use the store sync option by default", () => {
+		const countStore = store(0, { sync: true });
+		const syncCallback = vi.fn();
+		const asyncCallback = vi.fn();
+		countStore.subscribe(syncCallback, { fireImmediately: false });
+		countStore.subscribe(asyncCallback, {
+			fireImmediately: false,
+			sync: false,
+		});
+
+		countStore.set(1);
+
+		expect(syncCallback).toHaveBeenCalledWith(1, 0);
+		expect(asyncCallback).not.toHaveBeenCalled();
+	});
+
+	it("should inherit the sync option in selected stores", () => {
+		const documentStore = store(
+			{ title: "Untitled", views: 0 },
+			{ sync: true },
+		);
+		const callback = vi.fn();
+		documentStore.select("title").subscribe(callback);
+
+		documentStore.select("views").set(1);
+		expect(callback).toHaveBeenCalledTimes(1);
+
+		documentStore.select("title").set("Notes");
+		expect(callback).toHaveBeenLastCalledWith("Notes", "Untitled");
+	});
+
+	it("should notify selected and lens stores", () => {
+		const temperatureStore = store({ fahrenheit: 32 });
+		const celsiusStore = temperatureStore.lens({
+			get: (state) => ((state.fahrenheit - 32) * 5) / 9,
+			set: (_, celsius) => ({ fahrenheit: (celsius * 9) / 5 + 32 }),
+		});
+		const fahrenheitCallback = vi.fn();
+		const celsiusCallback = vi.fn();
+		temperatureStore
+			.select("fahrenheit")
+			.subscribe(fahrenheitCallback, { sync: true });
+		celsiusStore.subscribe(celsiusCallback, { sync: true });
+
+		celsiusStore.set(100);
+
+		expect(fahrenheitCallback).toHaveBeenLastCalledWith(212, 32);
+		expect(celsiusCallback).toHaveBeenLastCalledWith(100, 0);
+	});
+
+	it("should notify computed stores", () => {
+		const firstNameStore = store("Ada");
+		const lastNameStore = store("Lovelace");
+		const fullNameStore = computed(
+			[firstNameStore, lastNameStore],
+			(first, last) => `${first} ${last}`,
+		);
+		const callback = vi.fn();
+		fullNameStore.subscribe(callback, { sync: true, fireImmediately: false });
+
+		lastNameStore.set("Byron");
+
+		expect(callback).toHaveBeenCalledWith("Ada Byron", "Ada Lovelace");
+	});
+
+	it("should notify once when a batch ends", () => {
+		const nameStore = store("Ada");
+		const emailStore = store("ada@example.com");
+		const fullStore = computed(
+			[nameStore, emailStore],
+			(name, email) => `${name} <${email}>`,
+		);
+		const callback = vi.fn();
+		fullStore.subscribe(callback, { sync: true, fireImmediately: false });
+
+		batch(() => {
+			nameStore.set("Grace");
+			emailStore.set("grace@example.com");
+			expect(callback).not.toHaveBeenCalled();
+		});
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith(
+			"Grace <grace@example.com>",
+			"Ada <ada@example.com>",
+		);
+	});
+
+	it("should not notify for rolled back batches", () => {
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback, { sync: true, fireImmediately: false });
+
+		expect(() =>
+			batch(
+				() => {
+					countStore.set(1);
+					throw new Error("Failed");
+				},
+				{ rollback: true },
+			),
+		).toThrow("Failed");
+
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	it("should propagate updates set inside a sync subscriber", () => {
+		const sourceStore = store(0);
+		const mirrorStore = store(0);
+		const callback = vi.fn();
+		sourceStore.subscribe((value) => mirrorStore.set(value), { sync: true });
+		mirrorStore.subscribe(callback, { sync: true, fireImmediately: false });
+
+		sourceStore.set(1);
+		sourceStore.set(2);
+
+		expect(callback.mock.calls).toEqual([
+			[1, 0],
+			[2, 1],
+		]);
+	});
+
+	it("should unsubscribe", () => {
+		const countStore = store(0);
+		const callback = vi.fn();
+		const unsubscribe = countStore.subscribe(callback, {
+			sync: true,
+			fireImmediately: false,
+		});
+
+		unsubscribe();
+		countStore.set(1);
+
+		expect(callback).not.toHaveBeenCalled();
+	});
+});
+
+describe("configureScheduler", () => {
+	afterEach(() => {
+		configureScheduler("microtask");
+		vi.unstubAllGlobals();
+	});
+
+	it("should only run effects on flushEffects() with the manual scheduler", async () => {
+		configureScheduler("manual");
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback, { fireImmediately: false });
+
+		countStore.set(1);
+		countStore.set(2);
+		await nextTick();
+		expect(callback).not.toHaveBeenCalled();
+
+		flushEffects();
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith(2, 0);
+	});
+
+	it("should flush effects without waiting for the microtask", () => {
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback, { fireImmediately: false });
+
+		countStore.set(1);
+		flushEffects();
+
+		expect(callback).toHaveBeenCalledWith(1, 0);
+	});
+
+	it("should run effects once per animation frame", () => {
+		const frames: FrameRequestCallback[] = [];
+		vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) =>
+			frames.push(callback),
+		);
+		configureScheduler("animationFrame");
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback, { fireImmediately: false });
+
+		countStore.set(1);
+		countStore.set(2);
+		expect(frames).toHaveLength(1);
+		expect(callback).not.toHaveBeenCalled();
+
+		frames[0](0);
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith(2, 0);
+	});
+
+	it("should post tasks with the priority", () => {
+		const tasks: (() => void)[] = [];
+		const postTask = vi.fn((callback: () => void) => {
+			tasks.push(callback);
+			return Promise.resolve();
+		});
+		vi.stubGlobal("scheduler", { postTask });
+		configureScheduler({ priority: "background" });
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback, { fireImmediately: false });
+
+		countStore.set(1);
+		expect(postTask).toHaveBeenCalledWith(expect.any(Function), {
+			priority: "background",
+		});
+
+		tasks[0]();
+		expect(callback).toHaveBeenCalledWith(1, 0);
+	});
+
+	it("should accept a custom scheduler", () => {
+		const flushes: (() => void)[] = [];
+		configureScheduler((flush) => flushes.push(flush));
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback, { fireImmediately: false });
+
+		countStore.set(1);
+		expect(callback).not.toHaveBeenCalled();
+
+		flushes[0]();
+		expect(callback).toHaveBeenCalledWith(1, 0);
+	});
+
+	it("should reschedule pending effects when the scheduler changes", async () => {
+		configureScheduler("manual");
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback, { fireImmediately: false });
+
+		countStore.set(1);
+		configureScheduler("microtask");
+		await nextTick();
+
+		expect(callback).toHaveBeenCalledWith(1, 0);
+	});
+
+	it("should not delay sync subscribers", () => {
+		configureScheduler("manual");
+		const countStore = store(0);
+		const callback = vi.fn();
+		countStore.subscribe(callback, { sync: true, fireImmediately: false });
+
+		countStore.set(1);
+
+		expect(callback).toHaveBeenCalledWith(1, 0);
+	});
+});
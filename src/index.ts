@@ -1,5 +1,46 @@
 import { DEV } from "esm-env";
 import { Signal } from "signal-polyfill";
+import { diffPatches, type JsonPatch } from "./patch.js";
+import { deserialize, serialize } from "./serialize.js";
+
+export {
+	type AsyncState,
+	type AsyncStore,
+	asyncStore,
+} from "./async.js";
+export {
+	type DevtoolsConnection,
+	type DevtoolsExtension,
+	type DevtoolsMessage,
+	type DevtoolsOptions,
+	devtoolsMiddleware,
+} from "./devtools.js";
+export {
+	type EntityId,
+	type EntityOptions,
+	type EntityState,
+	type EntityStore,
+	entityStore,
+} from "./entity.js";
+export {
+	type HistoryMiddleware,
+	type HistoryOptions,
+	historyMiddleware,
+} from "./history.js";
+export { applyPatches, type JsonPatch } from "./patch.js";
+export {
+	type PersistOptions,
+	type PersistStorage,
+	persistMiddleware,
+} from "./persist.js";
+export { type Draft, produce } from "./produce.js";
+export { shallow } from "./shallow.js";
+export {
+	type SyncChannel,
+	type SyncMessage,
+	type SyncOptions,
+	syncMiddleware,
+} from "./sync.js";
 
 export type StateObject = Record<string | number | symbol, any>;
 export type StatePrimitive = string | number | boolean | null | undefined;
@@ -24,34 +65,91 @@ export type SelectValue<S, K extends keyof S> = S extends readonly (infer U)[] /
 			? S[K] | undefined
 			: S[K];
 
+// Map keys select the value for that key, which may be missing.
+// Set keys select whether the set has that value.
+type SelectKeyValue<S, K> = S extends ReadonlyMap<unknown, infer V>
+	? V | undefined
+	: S extends ReadonlySet<unknown>
+		? boolean
+		: K extends keyof S
+			? SelectValue<S, K>
+			: undefined;
+
 // Make `select` always present but typed as undefined when the state may not be an object
 type NonNullableState<T> = T extends null | undefined ? never : T;
 
-type SelectPath<T> = T extends StateObject
-	? {
-			[K in keyof Required<T>]:
+// `CollectionKey` limits which Map keys and Set values a path may contain.
+type SelectPath<T, CollectionKey = PropertyKey> = T extends ReadonlyMap<
+	infer K,
+	infer V
+>
+	? K extends CollectionKey & PropertyKey
+		?
 				| [K]
-				| (SelectPath<NonNullableState<SelectValue<T, K>>> extends infer P
-						? P extends readonly any[]
+				| (SelectPath<NonNullableState<V>, CollectionKey> extends infer P
+						? P extends readonly unknown[]
 							? [K, ...P]
 							: [K]
-						: [K]);
-		}[keyof Required<T>]
-	: never;
+						: [K])
+		: never
+	: T extends ReadonlySet<infer V>
+		? V extends CollectionKey & PropertyKey
+			? [V]
+			: never
+		: T extends StateObject
+			? {
+					[K in keyof Required<T>]:
+						| [K]
+						| (SelectPath<
+								NonNullableState<SelectValue<T, K>>,
+								CollectionKey
+						  > extends infer P
+								? P extends readonly any[]
+									? [K, ...P]
+									: [K]
+								: [K]);
+				}[keyof Required<T>]
+			: never;
 
 type SelectPathValue<T, P extends readonly PropertyKey[]> = T extends
 	| null
 	| undefined
 	? undefined
 	: P extends [infer K, ...infer Rest]
-		? K extends keyof T
-			? SelectPathValue<
-					SelectValue<T, K>,
-					Rest extends readonly PropertyKey[] ? Rest : []
-				>
-			: undefined
+		? SelectPathValue<
+				SelectKeyValue<T, K>,
+				Rest extends readonly PropertyKey[] ? Rest : []
+			>
 		: T;
 
+// Dot-notation paths, like "meta.tags.0", joined from each select path.
+type JoinPath<P> = P extends [infer K extends string | number]
+	? `${K}`
+	: P extends [infer K extends string | number, ...infer Rest]
+		? `${K}.${JoinPath<Rest>}`
+		: never;
+
+// Dot paths are split into string keys, so they only reach string Map keys and Set values.
+type DotPath<T> = SelectPath<T, string> extends infer P ? JoinPath<P> : never;
+
+type DotKeyValue<S, K extends string> = S extends readonly unknown[]
+	? K extends `${number}`
+		? SelectKeyValue<S, number>
+		: undefined
+	: S extends ReadonlyMap<unknown, unknown> | ReadonlySet<unknown>
+		? SelectKeyValue<S, K>
+		: K extends keyof S
+			? SelectKeyValue<S, K>
+			: K extends `${infer N extends number}`
+				? SelectKeyValue<S, N>
+				: undefined;
+
+type DotPathValue<T, P extends string> = T extends null | undefined
+	? undefined
+	: P extends `${infer K}.${infer Rest}`
+		? DotPathValue<DotKeyValue<T, K>, Rest>
+		: DotKeyValue<T, P>;
+
 export type SelectFn<T extends StateObject | StatePrimitive> =
 	NonNullableState<T> extends StateObject
 		? {
@@ -61,9 +159,24 @@ export type SelectFn<T extends StateObject | StatePrimitive> =
 				<P extends SelectPath<NonNullableState<T>>>(
 					...pathAndOptions: [...P, StoreOptions<SelectPathValue<T, P>>]
 				): Store<SelectPathValue<T, P>>;
+				<P extends DotPath<NonNullableState<T>>>(
+					path: P,
+					options?: StoreOptions<DotPathValue<T, P>>,
+				): Store<DotPathValue<T, P>>;
 			}
 		: undefined;
 
+export type SubscribeFn<T extends StateObject | StatePrimitive> = {
+	<U>(
+		callback: (selected: U, prev: U | undefined) => void,
+		options: SubscribeOptions<T, U> & { selector: (state: T) => U },
+	): () => void;
+	(
+		callback: (state: T, prev: T | undefined) => void,
+		options?: Omit<SubscribeOptions<T>, "selector">,
+	): () => void;
+};
+
 export type Store<T extends StateObject | StatePrimitive> = {
 	/**
 	 * Get the current state of the store.
@@ -89,11 +202,30 @@ export type Store<T extends StateObject | StatePrimitive> = {
 	 * const setToZero = () => countStore.set(0);
 	 */
 	set: (setter: Setter<T>) => void;
+	/**
+	 * Restore the initial state of the store.
+	 * Selected stores only restore their own path in the parent state.
+	 * Paths missing from the initial state are removed, and later array items move down.
+	 *
+	 * @example
+	 * const formStore = store({ username: "", email: "" });
+	 * formStore.set({ username: "ada", email: "ada@example.com" });
+	 *
+	 * formStore.select("email").reset();
+	 * console.log(formStore.get()); // { username: "ada", email: "" }
+	 *
+	 * formStore.reset();
+	 * console.log(formStore.get()); // { username: "", email: "" }
+	 */
+	reset: () => void;
 	/**
 	 * Subscribe to the state of the store.
+	 * The callback is called immediately with the current state, and again on every change
+	 * with the new and previous state. Pass a `selector` to only be notified when a derived value changes.
 	 * Returns a function to unsubscribe.
 	 *
-	 * @param callback - The callback to subscribe to.
+	 * @param callback - Receives the new state, and the previous state it was notified of (`undefined` on the immediate call).
+	 * @param options - A selector to subscribe to, how to compare its values, and whether to call back immediately.
 	 * @returns A function to unsubscribe.
 	 * @example
 	 * const countStore = store(0);
@@ -104,11 +236,40 @@ export type Store<T extends StateObject | StatePrimitive> = {
 	 * // On component unmount or other cleanup:
 	 * unsubscribe();
 	 *
+	 * const filtersStore = store({ query: "", page: 1 });
+	 * filtersStore.subscribe(
+	 *   (query, prevQuery) => analytics.track("search", { query, prevQuery }),
+	 *   { selector: (filters) => filters.query, fireImmediately: false },
+	 * );
 	 */
-	subscribe: (callback: (state: T) => void) => () => void;
+	subscribe: SubscribeFn<T>;
+	/**
+	 * Subscribe to the changes made by each update, as JSON Patch operations.
+	 * Called synchronously after each update, or once after a {@link batch}.
+	 * Selected stores only receive changes within their path, relative to the selected value.
+	 * Maps and Sets are not walked into: a change inside one replaces the whole Map or Set,
+	 * which is not a JSON value and serializes to `{}`. Select a value inside the Map to receive patches within it.
+	 * Returns a function to unsubscribe.
+	 *
+	 * @param callback - Receives the operations that were applied, and the operations that undo them.
+	 * @returns A function to unsubscribe.
+	 * @example
+	 * const documentStore = store({ title: "Untitled", tags: [] as string[] });
+	 * documentStore.subscribePatches((patches) => {
+	 *   fetch("/api/document", { method: "PATCH", body: JSON.stringify(patches) });
+	 * });
+	 *
+	 * documentStore.select("tags").set((tags) => [...tags, "draft"]);
+	 * // [{ op: "add", path: "/tags/0", value: "draft" }]
+	 */
+	subscribePatches: (
+		callback: (patches: JsonPatch[], inversePatches: JsonPatch[]) => void,
+	) => () => void;
 	/**
 	 * Select a key from the state of the store.
 	 * This returns a new store with the selected key as the state.
+	 * Map keys select the value for that key, and Set values select whether the set has that value.
+	 * Nested keys can be passed as separate arguments, or as one dot-notation path string.
 	 * @example
 	 * const documentStore = store({
 	 *   title: "Untitled",
@@ -120,23 +281,118 @@ export type Store<T extends StateObject | StatePrimitive> = {
 	 * titleStore.set("New Title");
 	 * console.log(titleStore.get()); // "New Title"
 	 * console.log(documentStore.get()); // { title: "New Title" }
+	 *
+	 * const postStore = store({ meta: { tags: ["draft"] } });
+	 * const firstTagStore = postStore.select("meta.tags.0");
+	 * // Same as postStore.select("meta", "tags", 0)
+	 *
+	 * const cacheStore = store({ users: new Map<string, User>(), pinned: new Set<string>() });
+	 * const adaStore = cacheStore.select("users", "ada"); // Store<User | undefined>
+	 * const isPinnedStore = cacheStore.select("pinned", "ada"); // Store<boolean>
+	 * isPinnedStore.set(true); // Adds "ada" to a copy of the Set
 	 */
 	select: SelectFn<T>;
+	/**
+	 * Select a view of the state with a getter and setter pair.
+	 * This returns a new store with the view as the state. Setting it writes back through the parent.
+	 * The getter is memoized, so it only re-runs when the parent state changes.
+	 * @example
+	 * const todosStore = store([{ id: 1, text: "Write docs", done: false }]);
+	 *
+	 * const todoStore = todosStore.lens({
+	 *   get: (todos) => todos.find((todo) => todo.id === 1),
+	 *   set: (todos, todo) => todos.map((t) => (t.id === todo?.id ? todo : t)),
+	 * });
+	 * todoStore.select("done").set(true);
+	 *
+	 * const temperatureStore = store({ fahrenheit: 32 });
+	 * const celsiusStore = temperatureStore.lens({
+	 *   get: (state) => ((state.fahrenheit - 32) * 5) / 9,
+	 *   set: (state, celsius) => ({ ...state, fahrenheit: (celsius * 9) / 5 + 32 }),
+	 * });
+	 */
+	lens: <U extends StateObject | StatePrimitive>(
+		lens: Lens<T, U>,
+		options?: StoreOptions<U>,
+	) => Store<U>;
 	/**
 	 * Optional cleanup for middleware init hooks.
 	 */
 	destroy: () => void;
 };
 
+/**
+ * A getter and setter pair for {@link Store.lens}.
+ * `set` receives the parent state and the new value, and returns the new parent state without mutating it.
+ */
+export type Lens<S, T> = {
+	get: (state: S) => T;
+	set: (state: S, value: T) => S;
+};
+
+/**
+ * A store that can be read and subscribed to, but not set.
+ * Returned by {@link computed}, and accepted anywhere a store is only read from.
+ */
+export type ReadonlyStore<T extends StateObject | StatePrimitive> = Pick<
+	Store<T>,
+	"get" | "getInitial" | "subscribe"
+>;
+
+type StoreValues<
+	S extends readonly ReadonlyStore<StateObject | StatePrimitive>[],
+> = {
+	[K in keyof S]: S[K] extends ReadonlyStore<infer V> ? V : never;
+};
+
 export type StoreMiddleware<T extends StateObject | StatePrimitive> = (
 	store: Store<T>,
 ) => {
 	set?: (next: Store<T>["set"]) => Store<T>["set"];
+	/**
+	 * Wraps `store.reset()`. The reset itself is applied through `set`,
+	 * so only wrap `reset` to handle resets differently from other updates.
+	 */
+	reset?: (next: Store<T>["reset"]) => Store<T>["reset"];
 	init?: (() => void) | (() => () => void);
 };
 
 export type StoreOptions<T extends StateObject | StatePrimitive> = {
 	middleware?: StoreMiddleware<T>[];
+	/**
+	 * Decides whether a new state is equal to the previous state.
+	 * Equal updates are skipped, and subscribers are not notified.
+	 * Defaults to `Object.is`.
+	 *
+	 * @example
+	 * import { shallow, store } from "@simplestack/store";
+	 *
+	 * const userStore = store({ name: "Ada" }, { equals: shallow });
+	 */
+	equals?: (a: T, b: T) => boolean;
+	/**
+	 * Notify subscribers synchronously inside `set()`, instead of in a microtask.
+	 * Selected stores inherit this option. Defaults to `false`.
+	 */
+	sync?: boolean;
+};
+
+export type SubscribeOptions<T, U = T> = {
+	/** Subscribe to a value derived from the state, instead of the whole state. */
+	selector?: (state: T) => U;
+	/**
+	 * Decides whether a new value is equal to the previous value. Equal values are not passed to the callback.
+	 * Defaults to the store's `equals` option, or `Object.is` when a `selector` is passed.
+	 */
+	equals?: (a: U, b: U) => boolean;
+	/** Call back immediately with the current value. Defaults to `true`. */
+	fireImmediately?: boolean;
+	/**
+	 * Call back synchronously inside `set()`, instead of in a microtask.
+	 * Inside a {@link batch}, the callback is called once when the batch ends.
+	 * Defaults to the store's `sync` option.
+	 */
+	sync?: boolean;
 };
 
 /**
@@ -160,7 +416,8 @@ export const loggerMiddleware = <T extends StateObject | StatePrimitive>(
 /**
  * Creates a store with properties for getting, setting, subscribing to, and selecting from the state.
  *
- * @param initial - The initial state of the store.
+ * @param initial - The initial state of the store, or a function that returns it.
+ * A function is called once, on the first `get()`, `getInitial()`, or `subscribe()`.
  * @returns A store with the initial state applied.
  * @example
  * // Infer types from the initial state
@@ -181,58 +438,321 @@ export const loggerMiddleware = <T extends StateObject | StatePrimitive>(
  *   createdAt: new Date(),
  *   authors: [],
  * });
+ *
+ * // Or compute an expensive initial state when the store is first used
+ * const configStore = store(() => parseConfig(rawConfig));
  */
 export function store(
-	initial: number,
+	initial: number | (() => number),
 	options?: StoreOptions<number>,
 ): Store<number>;
 export function store(
-	initial: string,
+	initial: string | (() => string),
 	options?: StoreOptions<string>,
 ): Store<string>;
 export function store(
-	initial: boolean,
+	initial: boolean | (() => boolean),
 	options?: StoreOptions<boolean>,
 ): Store<boolean>;
 export function store<T extends StateObject | StatePrimitive>(
-	initial: T,
+	initial: T | (() => T),
 	options?: StoreOptions<T>,
 ): Store<T>;
 export function store<T extends StateObject | StatePrimitive>(
-	initial: T,
+	initial: T | (() => T),
 	options?: StoreOptions<T>,
 ): Store<T> {
-	const state = new Signal.State<T>(initial);
-	const getInitial = () => initial;
-	const get = () => state.get();
+	const lazy = typeof initial === "function";
+	let initialized = !lazy;
+	let initialState = (lazy ? undefined : initial) as T;
+	const getInitial = () => {
+		if (!initialized) {
+			initialState = (initial as () => T)();
+			initialized = true;
+		}
+		return initialState;
+	};
+
+	// Lazy stores hold `uninitialized` until first set, and read through to `getInitial()`.
+	// This avoids writing to the signal on read, which is not allowed inside computeds.
+	const equals = options?.equals;
+	const state = new Signal.State<T | typeof uninitialized>(
+		lazy ? uninitialized : initialState,
+		{
+			equals: (a, b) =>
+				a !== uninitialized &&
+				b !== uninitialized &&
+				(equals ? equals(a, b) : Object.is(a, b)),
+		},
+	);
+	const get = () => {
+		const value = state.get();
+		return value === uninitialized ? getInitial() : value;
+	};
 	const set = (setter: Setter<T>) =>
-		state.set(typeof setter === "function" ? setter(state.get()) : setter);
-	return createStoreApi(getInitial, get, set, {
+		state.set(typeof setter === "function" ? setter(get()) : setter);
+	const storeApi = createStoreApi(getInitial, get, set, {
+		root: true,
 		middleware: options?.middleware,
+		equals,
+		sync: options?.sync,
+		isComputed: () =>
+			initialized || Signal.subtle.untrack(() => state.get()) !== uninitialized,
 	});
+	const ref = new WeakRef(storeApi);
+	rootStores.add(ref);
+	rootStoreCleanup.register(storeApi, ref);
+	return storeApi;
+}
+
+const uninitialized = Symbol("uninitialized");
+
+// Root stores are held weakly, so resetAllStores() does not keep unused stores alive.
+const rootStores = new Set<WeakRef<Pick<Store<never>, "reset">>>();
+const rootStoreCleanup = new FinalizationRegistry<
+	WeakRef<Pick<Store<never>, "reset">>
+>((ref) => rootStores.delete(ref));
+
+/**
+ * Restores the initial state of every store created with {@link store}.
+ * Useful for clearing user data on logout.
+ *
+ * @example
+ * async function logout() {
+ *   await fetch("/api/logout", { method: "POST" });
+ *   resetAllStores();
+ * }
+ */
+export function resetAllStores(): void {
+	for (const ref of rootStores) ref.deref()?.reset();
+}
+
+// Root stores are hydrated without running middleware.
+const hydrators = new WeakMap<object, (value: unknown) => void>();
+
+/**
+ * Serializes the current state of each store, to be sent from the server to the client.
+ * Dates, Maps, Sets, and `undefined` are preserved.
+ * The result is safe to embed in an HTML `<script>` tag.
+ *
+ * @param stores - The stores to serialize, keyed by a unique name.
+ * @returns A snapshot to pass to {@link hydrate}.
+ * @example
+ * const snapshot = dehydrate({ user: userStore, cart: cartStore });
+ */
+export function dehydrate(
+	stores: Record<string, ReadonlyStore<StateObject | StatePrimitive>>,
+): string {
+	return serialize(
+		Object.fromEntries(
+			Object.entries(stores).map(([key, store]) => [key, store.get()]),
+		),
+	);
+}
+
+/**
+ * Applies a snapshot from {@link dehydrate} as the current state of each store.
+ * The initial state is kept, so `reset()` still restores it.
+ * Middleware is skipped while hydrating.
+ *
+ * @param stores - The stores to hydrate, keyed by the same names passed to `dehydrate()`.
+ * @param snapshot - The snapshot returned by `dehydrate()`.
+ * @example
+ * hydrate({ user: userStore, cart: cartStore }, window.__SNAPSHOT__);
+ */
+export function hydrate<T extends Record<string, StateObject | StatePrimitive>>(
+	stores: { [K in keyof T]: Store<T[K]> },
+	snapshot: string,
+): void {
+	const values = deserialize(snapshot) as Record<string, unknown>;
+	for (const [key, store] of Object.entries(stores) as [
+		string,
+		Store<StateObject | StatePrimitive>,
+	][]) {
+		if (!Object.hasOwn(values, key)) continue;
+		const hydrator = hydrators.get(store);
+		if (hydrator) {
+			hydrator(values[key]);
+		} else {
+			store.set(values[key] as StateObject | StatePrimitive);
+		}
+	}
+}
+
+// Replaced initial states, while reading with getInitialWith().
+let initialOverrides: ReadonlyMap<object, unknown> | undefined;
+
+/**
+ * Reads the initial state of a store as if some stores started from other states, without changing them.
+ * Selected, lens, and computed stores derive their initial state from the replaced states.
+ * Used to render server snapshots without writing to stores that are shared between requests.
+ *
+ * @param store - The store to read.
+ * @param initialStates - The initial state to use for each replaced store.
+ * @returns The initial state of `store`.
+ * @example
+ * const userStore = store({ name: "" });
+ * const nameStore = userStore.select("name");
+ *
+ * getInitialWith(nameStore, new Map([[userStore, { name: "Ada" }]])); // "Ada"
+ * nameStore.getInitial(); // ""
+ */
+export function getInitialWith<T extends StateObject | StatePrimitive>(
+	store: ReadonlyStore<T>,
+	initialStates: ReadonlyMap<object, unknown>,
+): T {
+	const parent = initialOverrides;
+	initialOverrides = parent
+		? new Map([...parent, ...initialStates])
+		: initialStates;
+	try {
+		return store.getInitial();
+	} finally {
+		initialOverrides = parent;
+	}
+}
+
+type ChangeListener<S> = (prev: S, next: S) => void;
+
+// One node per path segment, so keys like `1` and `"1"` stay distinct for Maps.
+type SelectCacheNode = {
+	children: Map<PropertyKey, SelectCacheNode>;
+	store?: WeakRef<object>;
+	parent?: SelectCacheNode;
+	key?: PropertyKey;
+};
+
+// Nodes are removed once their store is collected and they have no children.
+const selectCacheCleanup = new FinalizationRegistry<SelectCacheNode>((node) => {
+	let current = node;
+	while (
+		current.parent &&
+		current.parent.children.get(current.key as PropertyKey) === current &&
+		!current.store?.deref() &&
+		!current.children.size
+	) {
+		current.parent.children.delete(current.key as PropertyKey);
+		current = current.parent;
+	}
+});
+
+function isIndexString(key: PropertyKey): key is string {
+	return typeof key === "string" && /^(0|[1-9]\d*)$/.test(key);
+}
+
+function getSelectCacheNode(
+	root: SelectCacheNode,
+	path: readonly PropertyKey[],
+): SelectCacheNode {
+	let node = root;
+	for (const key of path) {
+		let child = node.children.get(key);
+		if (!child) {
+			child = { children: new Map(), parent: node, key };
+			node.children.set(key, child);
+		}
+		node = child;
+	}
+	return node;
 }
 
 const createStoreApi = <S extends StateObject | StatePrimitive>(
-	getInitial: () => S,
+	getBaseInitial: () => S,
 	get: () => S,
 	baseSet: (setter: Setter<S>) => void,
-	options?: { selectable?: boolean; middleware?: StoreMiddleware<S>[] },
+	options?: {
+		root?: boolean;
+		selectable?: boolean;
+		middleware?: StoreMiddleware<S>[];
+		equals?: (a: S, b: S) => boolean;
+		sync?: boolean;
+		listenChanges?: (listener: ChangeListener<S>) => () => void;
+		/** Restores the initial state, instead of writing `getInitial()`. */
+		reset?: (write: (setter: Setter<S>) => void) => void;
+		/** Whether the state is computed, false until a lazy store is first read. */
+		isComputed?: () => boolean;
+	},
 ): Store<S> => {
-	let set = baseSet;
-
-	const subscribe = (callback: (state: S) => void) => {
-		// Track the previous value to avoid unnecessary updates when effects are triggered.
-		// Each subscriber tracks its own previous value to avoid duplicate callbacks
-		let previousValue: S | undefined;
-
-		return effect(() => {
-			const value = get();
-			if (!Object.is(previousValue, value)) {
-				previousValue = value;
-				callback(value);
-			}
+	// Root stores notify change listeners after each update passes through middleware.
+	// Selected stores listen to their parent, narrowed to their path.
+	const changeListeners = new Set<ChangeListener<S>>();
+	const listenChanges =
+		options?.listenChanges ??
+		((listener: ChangeListener<S>) => {
+			changeListeners.add(listener);
+			return () => {
+				changeListeners.delete(listener);
+			};
 		});
+
+	const setAndNotify = (setter: Setter<S>) => {
+		// Reading the previous state would initialize lazy stores that nothing has read yet.
+		if (!changeListeners.size) {
+			baseSet(setter);
+			return;
+		}
+		const prev = get();
+		baseSet(setter);
+		const next = get();
+		if (Object.is(prev, next)) return;
+		for (const listener of changeListeners) listener(prev, next);
 	};
+	let set = options?.root ? setAndNotify : baseSet;
+	const getInitial = () =>
+		initialOverrides?.has(storeApi)
+			? (initialOverrides.get(storeApi) as S)
+			: getBaseInitial();
+	let reset = options?.reset
+		? () => options.reset?.(write)
+		: () => write(getBaseInitial());
+	const equals = options?.equals ?? Object.is;
+
+	// Inside a batch, root stores and stores with middleware write directly to their state and defer middleware.
+	// The first write records the pre-batch value so the batch can commit or roll back.
+	const write = (setter: Setter<S>) => {
+		if (!batchScope || (!options?.root && !options?.middleware?.length)) {
+			set(setter);
+			return;
+		}
+		if (!batchScope.has(storeApi)) {
+			const before = get();
+			batchScope.set(storeApi, {
+				root: options?.root === true,
+				// Selected stores write through their root store, which rolls back the whole state.
+				rollback: () => {
+					if (options?.root) baseSet(before);
+				},
+				commit: () => {
+					const next = get();
+					if (equals(before, next)) return;
+					baseSet(before);
+					set(next);
+				},
+			});
+		}
+		baseSet(setter);
+	};
+
+	const subscribe = ((
+		callback: (value: unknown, prev: unknown) => void,
+		subscribeOptions?: SubscribeOptions<S, unknown>,
+	) =>
+		subscribeTo(
+			{
+				get,
+				equals,
+				sync: options?.sync ?? false,
+				listen: (listener) => listenChanges(listener),
+			},
+			callback,
+			subscribeOptions,
+		)) as SubscribeFn<S>;
+
+	const subscribePatches: Store<S>["subscribePatches"] = (callback) =>
+		listenChanges((prev, next) => {
+			const patches = diffPatches(prev, next);
+			if (patches.length) callback(patches, diffPatches(next, prev));
+		});
 
 	const warnDiscardedSet = (path: readonly PropertyKey[]) => {
 		if (!DEV) return;
@@ -247,11 +767,38 @@ const createStoreApi = <S extends StateObject | StatePrimitive>(
 		);
 	};
 
+	// A single string with dots is a dot-notation path, unless the state has that exact key.
+	const isDotPath = (path: readonly PropertyKey[]) =>
+		path.length === 1 && typeof path[0] === "string" && path[0].includes(".");
+	const parsePath = (path: readonly PropertyKey[], state: S) => {
+		const key = path[0] as string;
+		if (!isStatePrimitive(state) && hasOwnKey(state, key)) return path;
+		return key.split(".");
+	};
+
+	// Selected stores are held weakly, so stores that are no longer used can be collected.
+	const selectCache: SelectCacheNode = { children: new Map() };
+	const lensCache = new WeakMap<object, object>();
+
+	// Array indices are cached as numbers, so "list.0" and ("list", 0) share a store.
+	const getCachePath = (path: readonly PropertyKey[]) => {
+		if (!path.some(isIndexString) || options?.isComputed?.() === false) {
+			return path;
+		}
+		let current: unknown = Signal.subtle.untrack(get);
+		return path.map((key) => {
+			const cacheKey =
+				Array.isArray(current) && isIndexString(key) ? Number(key) : key;
+			current = isStatePrimitive(current) ? undefined : getKey(current, key);
+			return cacheKey;
+		});
+	};
+
 	const getAtPath = (state: S, path: readonly PropertyKey[]) => {
 		let current: any = state;
 		for (const key of path) {
 			if (isStatePrimitive(current)) return undefined;
-			current = current[key as keyof typeof current];
+			current = getKey(current, key);
 		}
 		return current as any;
 	};
@@ -259,9 +806,12 @@ const createStoreApi = <S extends StateObject | StatePrimitive>(
 	const storeApi: Store<S> = {
 		get,
 		getInitial,
-		set: (setter: Setter<S>) => set(setter),
+		set: write,
+		reset: () => reset(),
 		subscribe,
+		subscribePatches,
 		select: undefined as SelectFn<S>,
+		lens,
 		destroy: () => {},
 	};
 
@@ -278,16 +828,34 @@ const createStoreApi = <S extends StateObject | StatePrimitive>(
 		// if the last argument matches the StoreOptions signature.
 		const maybeOptions = pathAndOptions[pathAndOptions.length - 1];
 		const hasOptions = isSelectOptions(maybeOptions);
-		const path = (
+		const rawPath = (
 			hasOptions ? pathAndOptions.slice(0, -1) : pathAndOptions
+		) as readonly PropertyKey[];
+		// Until a lazy store computes its state, dot paths are parsed against each state they read,
+		// so selecting does not compute it.
+		const parseOnRead = isDotPath(rawPath) && options?.isComputed?.() === false;
+		const path = (
+			isDotPath(rawPath) && !parseOnRead ? parsePath(rawPath, get()) : rawPath
 		) as P;
+		const pathIn = (state: S) => (parseOnRead ? parsePath(path, state) : path);
 		const selectOptions = hasOptions
 			? (maybeOptions as StoreOptions<SelectPathValue<S, P>>)
 			: undefined;
-		const getInitialSelected = () => getAtPath(getInitial(), path);
-		const getSelected = () => getAtPath(get(), path);
+
+		// Stores selected without options are shared, so selecting inline returns the same store.
+		const cacheNode = hasOptions
+			? undefined
+			: getSelectCacheNode(selectCache, getCachePath(path));
+		const cached = cacheNode?.store?.deref();
+		if (cached) return cached as Store<SelectPathValue<S, P>>;
+
+		const equalsSelected = selectOptions?.equals ?? Object.is;
+		const getAtPathIn = (state: S) => getAtPath(state, pathIn(state));
+		const getInitialSelected = () => getAtPathIn(getInitial());
+		const getSelected = () => getAtPathIn(get());
 		const setSelected = (setter: Setter<SelectPathValue<S, P>>) => {
-			set((state) => {
+			write((state) => {
+				const path = pathIn(state);
 				let current: any = state;
 				const parents: any[] = [];
 				const keys: PropertyKey[] = [];
@@ -300,7 +868,7 @@ const createStoreApi = <S extends StateObject | StatePrimitive>(
 					}
 					parents.push(current);
 					keys.push(key);
-					current = current[key as keyof typeof current];
+					current = getKey(current, key);
 				}
 
 				if (isStatePrimitive(current)) {
@@ -309,11 +877,11 @@ const createStoreApi = <S extends StateObject | StatePrimitive>(
 				}
 
 				const lastKey = path[path.length - 1];
-				if (!Array.isArray(current) && !Object.hasOwn(current, lastKey)) {
+				if (!hasKey(current, lastKey)) {
 					warnDiscardedSet(path);
 					return state;
 				}
-				const prev = current[lastKey as keyof typeof current];
+				const prev = getKey(current, lastKey);
 				const next =
 					typeof setter === "function"
 						? (setter as (s: SelectPathValue<S, P>) => SelectPathValue<S, P>)(
@@ -321,37 +889,122 @@ const createStoreApi = <S extends StateObject | StatePrimitive>(
 							)
 						: setter;
 
-				if (Object.is(prev, next)) return state;
-
-				let updated: any = Array.isArray(current)
-					? [...current]
-					: { ...(current as StateObject) };
-				updated[lastKey as keyof typeof updated] = next;
+				if (equalsSelected(prev, next)) return state;
 
+				let updated = setKey(current, lastKey, next);
 				for (let i = parents.length - 1; i >= 0; i--) {
-					const parent = parents[i];
-					const key = keys[i];
-					const cloned: any = Array.isArray(parent)
-						? [...parent]
-						: { ...(parent as StateObject) };
-					cloned[key as any] = updated;
-					updated = cloned;
+					updated = setKey(parents[i], keys[i], updated);
 				}
 
 				return updated as S;
 			});
 		};
-		return createStoreApi(getInitialSelected, getSelected, setSelected, {
-			selectable: true,
-			middleware: selectOptions?.middleware,
+		// Paths missing from the initial state are removed, instead of set to `undefined`.
+		const resetSelected = (
+			writeSelected: (setter: Setter<SelectPathValue<S, P>>) => void,
+		) => {
+			const initialState = getBaseInitial();
+			if (hasPath(initialState, pathIn(initialState))) {
+				writeSelected(getAtPathIn(initialState));
+				return;
+			}
+			write((state) => removePath(state, pathIn(state)) as S);
+		};
+		const selected = createStoreApi(
+			getInitialSelected,
+			getSelected,
+			setSelected,
+			{
+				selectable: true,
+				reset: resetSelected,
+				middleware: selectOptions?.middleware,
+				equals: selectOptions?.equals,
+				sync: selectOptions?.sync ?? options?.sync,
+				isComputed: options?.isComputed,
+				listenChanges: (listener) =>
+					listenChanges((prev, next) => {
+						const prevSelected = getAtPathIn(prev);
+						const nextSelected = getAtPathIn(next);
+						if (!Object.is(prevSelected, nextSelected)) {
+							listener(prevSelected, nextSelected);
+						}
+					}),
+			},
+		);
+		if (cacheNode) {
+			cacheNode.store = new WeakRef(selected);
+			selectCacheCleanup.register(selected, cacheNode);
+		}
+		return selected;
+	}
+
+	function lens<U extends StateObject | StatePrimitive>(
+		accessors: Lens<S, U>,
+		lensOptions?: StoreOptions<U>,
+	): Store<U> {
+		const cached = lensOptions ? undefined : lensCache.get(accessors);
+		if (cached) return cached as Store<U>;
+
+		const equalsLens = lensOptions?.equals ?? Object.is;
+		const view = new Signal.Computed(() => accessors.get(get()), {
+			equals: lensOptions?.equals,
 		});
+		let initial: { source: S; value: U } | undefined;
+
+		const getInitialLens = () => {
+			const source = getInitial();
+			if (!initial || !Object.is(initial.source, source)) {
+				initial = { source, value: accessors.get(source) };
+			}
+			return initial.value;
+		};
+		const setLens = (setter: Setter<U>) => {
+			write((state) => {
+				const prev = accessors.get(state);
+				const next = typeof setter === "function" ? setter(prev) : setter;
+				return equalsLens(prev, next) ? state : accessors.set(state, next);
+			});
+		};
+		const lensStore = createStoreApi(
+			getInitialLens,
+			() => view.get(),
+			setLens,
+			{
+				selectable: true,
+				middleware: lensOptions?.middleware,
+				equals: lensOptions?.equals,
+				sync: lensOptions?.sync ?? options?.sync,
+				isComputed: options?.isComputed,
+				listenChanges: (listener) =>
+					listenChanges((prev, next) => {
+						const prevView = accessors.get(prev);
+						const nextView = accessors.get(next);
+						if (!equalsLens(prevView, nextView)) listener(prevView, nextView);
+					}),
+			},
+		);
+		if (!lensOptions) lensCache.set(accessors, lensStore);
+		return lensStore;
 	}
 
-	const canSelect = options?.selectable ?? !isStatePrimitive(get());
-	if (canSelect) {
+	if (options?.selectable === undefined && options?.isComputed?.() === false) {
+		// Selecting from a lazy store should not compute its initial state.
+		// Once computed, primitive states have no `select`, like eager stores.
+		Object.defineProperty(storeApi, "select", {
+			enumerable: true,
+			get: () =>
+				options.isComputed?.() && isStatePrimitive(Signal.subtle.untrack(get))
+					? undefined
+					: select,
+		});
+	} else if (options?.selectable ?? !isStatePrimitive(get())) {
 		storeApi.select = select as SelectFn<S>;
 	}
 
+	if (options?.root) {
+		hydrators.set(storeApi, (value) => setAndNotify(value as S));
+	}
+
 	if (options?.middleware?.length) {
 		const entries = options.middleware.map((middleware) =>
 			middleware(storeApi),
@@ -367,6 +1020,20 @@ const createStoreApi = <S extends StateObject | StatePrimitive>(
 			set = setWrappers.reduceRight((next, wrapper) => wrapper(next), set);
 		}
 
+		const resetWrappers = entries
+			.map((entry) => entry.reset)
+			.filter(
+				(entry): entry is (next: Store<S>["reset"]) => Store<S>["reset"] =>
+					typeof entry === "function",
+			);
+
+		if (resetWrappers.length) {
+			reset = resetWrappers.reduceRight(
+				(next, wrapper) => wrapper(next),
+				reset,
+			);
+		}
+
 		const cleanups = entries
 			.map((entry) => entry.init?.())
 			.filter(
@@ -384,6 +1051,288 @@ const createStoreApi = <S extends StateObject | StatePrimitive>(
 	return storeApi;
 };
 
+export type BatchOptions = {
+	/**
+	 * Restore every store written inside the batch if the callback throws.
+	 * Otherwise, writes made before the error are committed.
+	 */
+	rollback?: boolean;
+};
+
+type BatchEntry = { root: boolean; rollback: () => void; commit: () => void };
+
+let batchScope: Map<object, BatchEntry> | undefined;
+
+/**
+ * Runs a callback where every `set()` is applied as a single update.
+ * Each store written inside the batch runs its middleware once with the final state,
+ * and subscribers are notified once. Nested batches are committed with the outermost batch.
+ *
+ * @param callback - The callback to run. Its return value is returned from `batch()`.
+ * @param options - Pass `rollback: true` to discard all writes if the callback throws.
+ * @example
+ * const formStore = store({ name: "Ada", email: "ada@example.com" });
+ *
+ * batch(() => {
+ *   formStore.select("name").set("");
+ *   formStore.select("email").set("");
+ * });
+ */
+export function batch<R>(callback: () => R, options?: BatchOptions): R {
+	const parent = batchScope;
+	const scope = new Map<object, BatchEntry>();
+	batchScope = scope;
+
+	let result: R;
+	try {
+		result = callback();
+	} catch (error) {
+		batchScope = parent;
+		if (options?.rollback) {
+			for (const entry of [...scope.values()].reverse()) entry.rollback();
+		} else {
+			endBatch(parent, scope);
+		}
+		throw error;
+	}
+	batchScope = parent;
+	endBatch(parent, scope);
+	return result;
+}
+
+function endBatch(
+	parent: Map<object, BatchEntry> | undefined,
+	scope: Map<object, BatchEntry>,
+) {
+	if (parent) {
+		// Stores first written in a nested batch are committed by the outer batch.
+		for (const [key, entry] of scope) {
+			if (!parent.has(key)) parent.set(key, entry);
+		}
+		return;
+	}
+	// Selected stores commit first, so writes through their middleware are still batched in their root store.
+	batchScope = scope;
+	try {
+		for (const entry of scope.values()) {
+			if (!entry.root) entry.commit();
+		}
+	} finally {
+		batchScope = undefined;
+	}
+	for (const entry of scope.values()) {
+		if (entry.root) entry.commit();
+	}
+}
+
+/**
+ * Creates a read-only store derived from one or more stores.
+ * The projection is memoized and only re-runs when a store it reads from changes.
+ *
+ * @param sources - A store, or an array of stores, to derive from.
+ * @param project - Receives the current value of each source and returns the derived value.
+ * @returns A read-only store with the derived value.
+ * @example
+ * const cartStore = store({ items: [{ price: 2, quantity: 3 }] });
+ * const totalStore = computed(cartStore, (cart) =>
+ *   cart.items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+ * );
+ *
+ * // Or derive from multiple stores
+ * const firstNameStore = store("Ada");
+ * const lastNameStore = store("Lovelace");
+ * const fullNameStore = computed(
+ *   [firstNameStore, lastNameStore],
+ *   (first, last) => `${first} ${last}`,
+ * );
+ */
+export function computed<
+	S extends StateObject | StatePrimitive,
+	T extends StateObject | StatePrimitive,
+>(source: ReadonlyStore<S>, project: (value: S) => T): ReadonlyStore<T>;
+export function computed<
+	const S extends readonly ReadonlyStore<StateObject | StatePrimitive>[],
+	T extends StateObject | StatePrimitive,
+>(sources: S, project: (...values: StoreValues<S>) => T): ReadonlyStore<T>;
+export function computed<T extends StateObject | StatePrimitive>(
+	sources:
+		| ReadonlyStore<StateObject | StatePrimitive>
+		| readonly ReadonlyStore<StateObject | StatePrimitive>[],
+	project: (...values: (StateObject | StatePrimitive)[]) => T,
+): ReadonlyStore<T> {
+	const stores = Array.isArray(sources) ? sources : [sources];
+	const value = new Signal.Computed(() =>
+		project(...stores.map((source) => source.get())),
+	);
+	let initial: { sources: unknown[]; value: T } | undefined;
+
+	const get = () => value.get();
+	// Recompute when a source's initial state changes.
+	const getInitial = () => {
+		const sources = stores.map((source) => source.getInitial());
+		let current = initial;
+		if (
+			!current ||
+			sources.some(
+				(source, index) => !Object.is(source, current?.sources[index]),
+			)
+		) {
+			current = { sources, value: project(...sources) };
+			initial = current;
+		}
+		return current.value;
+	};
+	return {
+		get,
+		getInitial,
+		subscribe: ((
+			callback: (value: unknown, prev: unknown) => void,
+			options?: SubscribeOptions<T, unknown>,
+		) =>
+			subscribeTo(
+				{
+					get,
+					equals: Object.is,
+					sync: false,
+					// Sync subscribers re-read the derived value whenever a source changes.
+					listen: (listener) => {
+						const unsubscribes = stores.map((source) =>
+							source.subscribe(listener, {
+								sync: true,
+								fireImmediately: false,
+							}),
+						);
+						return () => {
+							for (const unsubscribe of unsubscribes) unsubscribe();
+						};
+					},
+				},
+				callback,
+				options,
+			)) as SubscribeFn<T>,
+	};
+}
+
+type SubscribeSource<S> = {
+	get: () => S;
+	equals: (a: S, b: S) => boolean;
+	// Whether subscribers are synchronous by default.
+	sync: boolean;
+	// Calls the listener synchronously after each update, for sync subscribers.
+	listen: (listener: () => void) => () => void;
+};
+
+function subscribeTo<S, U>(
+	source: SubscribeSource<S>,
+	callback: (value: U, prev: U | undefined) => void,
+	options: SubscribeOptions<S, U> = {},
+) {
+	const { get, equals } = source;
+	const { selector, fireImmediately = true, sync = source.sync } = options;
+	const read = selector ? () => selector(get()) : (get as unknown as () => U);
+	const isEqual =
+		options.equals ??
+		(selector ? Object.is : (equals as unknown as (a: U, b: U) => boolean));
+	// Each subscriber tracks its own previous value to avoid duplicate callbacks
+	// when effects are triggered without a change.
+	let previous: { value: U } | undefined;
+
+	const notify = () => {
+		const value = read();
+		if (!previous) {
+			previous = { value };
+			if (fireImmediately) callback(value, undefined);
+			return;
+		}
+		if (isEqual(previous.value, value)) return;
+		const prev = previous.value;
+		previous = { value };
+		callback(value, prev);
+	};
+
+	if (!sync) return effect(notify);
+
+	// Sync subscribers may be notified while an effect is running,
+	// so keep their reads from becoming dependencies of that effect.
+	const notifyUntracked = () => Signal.subtle.untrack(notify);
+	notifyUntracked();
+	return source.listen(notifyUntracked);
+}
+
+function getKey(state: StateObject, key: PropertyKey) {
+	if (state instanceof Map) return state.get(key);
+	if (state instanceof Set) return state.has(key);
+	return state[key];
+}
+
+function hasOwnKey(state: StateObject, key: PropertyKey) {
+	if (state instanceof Map || state instanceof Set) return state.has(key);
+	return Object.hasOwn(state, key);
+}
+
+// Sets can always be selected, since selecting a value reads whether the set has it.
+function hasKey(state: StateObject, key: PropertyKey) {
+	if (state instanceof Map) return state.has(key);
+	return (
+		state instanceof Set || Array.isArray(state) || Object.hasOwn(state, key)
+	);
+}
+
+// Returns a copy of the state with the key set, leaving the state unchanged.
+function setKey(
+	state: StateObject,
+	key: PropertyKey,
+	value: unknown,
+): StateObject {
+	if (state instanceof Map) return new Map(state).set(key, value);
+	if (state instanceof Set) {
+		const copy = new Set(state);
+		if (value) copy.add(key);
+		else copy.delete(key);
+		return copy;
+	}
+	const copy: StateObject = Array.isArray(state) ? [...state] : { ...state };
+	copy[key] = value;
+	return copy;
+}
+
+// Whether the state has every key of the path. Sets can always be selected.
+function hasPath(state: unknown, path: readonly PropertyKey[]) {
+	let current = state;
+	for (const key of path) {
+		if (isStatePrimitive(current)) return false;
+		if (!(current instanceof Set) && !hasOwnKey(current, key)) return false;
+		current = getKey(current, key);
+	}
+	return true;
+}
+
+// Returns a copy of the state without the last key of the path.
+// Array indices are removed, so later items move down.
+function removePath(
+	state: StateObject | StatePrimitive,
+	path: readonly PropertyKey[],
+): StateObject | StatePrimitive {
+	const [key, ...rest] = path;
+	if (isStatePrimitive(state) || !hasOwnKey(state, key)) return state;
+	if (rest.length) {
+		const child = getKey(state, key);
+		const next = removePath(child, rest);
+		return Object.is(child, next) ? state : setKey(state, key, next);
+	}
+	if (state instanceof Map || state instanceof Set) {
+		const copy = state instanceof Map ? new Map(state) : new Set(state);
+		copy.delete(key);
+		return copy;
+	}
+	if (Array.isArray(state)) {
+		return state.filter((_, index) => index !== Number(key));
+	}
+	const copy = { ...state };
+	delete copy[key];
+	return copy;
+}
+
 const isSelectOptions = (value: unknown): value is StoreOptions<any> => {
 	const type = typeof value;
 	return type !== "string" && type !== "number" && type !== "symbol";
@@ -399,12 +1348,91 @@ function isStatePrimitive(state: unknown): state is StatePrimitive {
 	);
 }
 
+export type TaskPriority = "user-blocking" | "user-visible" | "background";
+
+/**
+ * When subscribers and effects run after a store update. One of:
+ * - `"microtask"`: after the current task, in a microtask. The default.
+ * - `"animationFrame"`: once per frame, with `requestAnimationFrame`.
+ * - `{ priority }`: as a task with `scheduler.postTask` and the given priority.
+ * - `"manual"`: only when {@link flushEffects} is called.
+ * - A function that receives `flush` and calls it later, never synchronously.
+ *
+ * Sync subscribers are always notified inside `set()`.
+ */
+export type Scheduler =
+	| "microtask"
+	| "animationFrame"
+	| "manual"
+	| { priority: TaskPriority }
+	| ((flush: () => void) => void);
+
+type PostTask = (
+	callback: () => void,
+	options: { priority: TaskPriority },
+) => Promise<void>;
+
+let schedule: (flush: () => void) => void = queueMicrotask;
+
+/**
+ * Sets when subscribers and effects run after a store update.
+ * Updates made before the scheduled run are coalesced, so subscribers are notified once with the latest state.
+ *
+ * @param scheduler - The scheduler to use. See {@link Scheduler}.
+ * @example
+ * // Notify subscribers at most once per frame
+ * configureScheduler("animationFrame");
+ *
+ * // In tests, run effects on demand
+ * configureScheduler("manual");
+ * countStore.set(1);
+ * flushEffects();
+ */
+export function configureScheduler(scheduler: Scheduler): void {
+	schedule = toSchedule(scheduler);
+	// Updates waiting on the previous scheduler, which may never flush them, are rescheduled.
+	if (!needsEnqueue) schedule(processPending);
+}
+
+function toSchedule(scheduler: Scheduler): (flush: () => void) => void {
+	if (typeof scheduler === "function") return scheduler;
+	if (scheduler === "microtask") return queueMicrotask;
+	if (scheduler === "manual") return () => {};
+	if (scheduler === "animationFrame") {
+		// requestAnimationFrame is not available on the server.
+		return (flush) =>
+			typeof requestAnimationFrame === "function"
+				? requestAnimationFrame(() => flush())
+				: setTimeout(flush);
+	}
+	const { priority } = scheduler;
+	return (flush) => {
+		const tasks = (globalThis as { scheduler?: { postTask?: PostTask } })
+			.scheduler;
+		if (tasks?.postTask) tasks.postTask(flush, { priority });
+		else setTimeout(flush);
+	};
+}
+
+/**
+ * Runs pending subscribers and effects now, instead of waiting for the scheduler.
+ * Useful in tests, and with the `"manual"` scheduler.
+ *
+ * @example
+ * countStore.set(1);
+ * flushEffects();
+ * expect(callback).toHaveBeenCalledWith(1, 0);
+ */
+export function flushEffects(): void {
+	processPending();
+}
+
 let needsEnqueue = true;
 
 const w = new Signal.subtle.Watcher(() => {
 	if (needsEnqueue) {
 		needsEnqueue = false;
-		queueMicrotask(processPending);
+		schedule(processPending);
 	}
 });
 
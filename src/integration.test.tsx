@@ -1,6 +1,6 @@
 import { fireEvent, render, screen, waitFor } from "@testing-library/react";
-import { act } from "react";
-import { store } from "./index.js";
+import { act, memo } from "react";
+import { entityStore, historyMiddleware, store } from "./index.js";
 import { useStoreValue } from "./react.js";
 
 describe("Integration Tests", () => {
@@ -84,6 +84,89 @@ describe("Integration Tests", () => {
 				expect(todosStore.get()).toHaveLength(3);
 			});
 		});
+
+		it("should only re-render the changed row with normalized todos", async () => {
+			type Todo = {
+				id: number;
+				text: string;
+				completed: boolean;
+			};
+
+			const todosStore = entityStore<Todo>({
+				initial: [
+					{ id: 1, text: "Buy groceries", completed: false },
+					{ id: 2, text: "Walk the dog", completed: false },
+				],
+			});
+			const idsStore = todosStore.select("ids");
+			const renders: Record<number, number> = {};
+
+			const TodoRow = memo(function TodoRow({ id }: { id: number }) {
+				const todo = useStoreValue(todosStore.selectById(id));
+				renders[id] = (renders[id] ?? 0) + 1;
+				if (!todo) return null;
+				return (
+					<div data-testid={`todo-${id}`}>
+						<span>{todo.text}</span>
+						<span>{todo.completed ? "✓" : "○"}</span>
+						<button
+							type="button"
+							data-testid={`toggle-${id}`}
+							onClick={() =>
+								todosStore.updateOne(id, (current) => ({
+									...current,
+									completed: !current.completed,
+								}))
+							}
+						>
+							Toggle
+						</button>
+					</div>
+				);
+			});
+
+			function TodoApp() {
+				const ids = useStoreValue(idsStore);
+				return (
+					<div>
+						<button
+							type="button"
+							data-testid="add-btn"
+							onClick={() =>
+								todosStore.addOne({ id: 3, text: "New task", completed: false })
+							}
+						>
+							Add
+						</button>
+						{ids.map((id) => (
+							<TodoRow key={id} id={id} />
+						))}
+					</div>
+				);
+			}
+
+			render(<TodoApp />);
+			const initialRenders = { ...renders };
+
+			act(() => {
+				screen.getByTestId("toggle-1").click();
+			});
+
+			await waitFor(() => {
+				expect(screen.getByTestId("todo-1")).toHaveTextContent("✓");
+			});
+			expect(renders[1]).toBeGreaterThan(initialRenders[1]);
+			expect(renders[2]).toBe(initialRenders[2]);
+
+			act(() => {
+				screen.getByTestId("add-btn").click();
+			});
+
+			await waitFor(() => {
+				expect(screen.getByTestId("todo-3")).toHaveTextContent("New task");
+			});
+			expect(renders[2]).toBe(initialRenders[2]);
+		});
 	});
 
 	describe("Form State Management Scenario", () => {
@@ -625,6 +708,78 @@ describe("Integration Tests", () => {
 				expect(screen.getByTestId("counter")).toHaveTextContent("2");
 			});
 		});
+
+		it("should implement undo/redo with historyMiddleware", async () => {
+			const history = historyMiddleware<number>();
+			const counterStore = store(0, { middleware: [history] });
+
+			function UndoRedoCounter() {
+				const count = useStoreValue(counterStore);
+				const canUndo = useStoreValue(history.canUndo);
+				const canRedo = useStoreValue(history.canRedo);
+				return (
+					<div>
+						<div data-testid="counter">{count}</div>
+						<button
+							type="button"
+							data-testid="increment"
+							onClick={() => counterStore.set((n) => n + 1)}
+						>
+							+1
+						</button>
+						<button
+							type="button"
+							data-testid="undo"
+							onClick={history.undo}
+							disabled={!canUndo}
+						>
+							Undo
+						</button>
+						<button
+							type="button"
+							data-testid="redo"
+							onClick={history.redo}
+							disabled={!canRedo}
+						>
+							Redo
+						</button>
+					</div>
+				);
+			}
+
+			render(<UndoRedoCounter />);
+
+			expect(screen.getByTestId("undo")).toBeDisabled();
+
+			for (let i = 0; i < 3; i++) {
+				act(() => {
+					screen.getByTestId("increment").click();
+				});
+			}
+
+			await waitFor(() => {
+				expect(screen.getByTestId("counter")).toHaveTextContent("3");
+				expect(screen.getByTestId("undo")).toBeEnabled();
+			});
+
+			act(() => {
+				screen.getByTestId("undo").click();
+			});
+
+			await waitFor(() => {
+				expect(screen.getByTestId("counter")).toHaveTextContent("2");
+				expect(screen.getByTestId("redo")).toBeEnabled();
+			});
+
+			act(() => {
+				screen.getByTestId("redo").click();
+			});
+
+			await waitFor(() => {
+				expect(screen.getByTestId("counter")).toHaveTextContent("3");
+				expect(screen.getByTestId("redo")).toBeDisabled();
+			});
+		});
 	});
 
 	describe("Reset to Initial State Scenario", () => {
@@ -724,5 +879,50 @@ describe("Integration Tests", () => {
 				true,
 			);
 		});
+
+		it("should reset a single field with a selected store", async () => {
+			const formStore = store({ username: "", email: "" });
+			const emailStore = formStore.select("email");
+
+			function EmailField() {
+				const email = useStoreValue(emailStore);
+				return (
+					<div>
+						<input
+							data-testid="email"
+							value={email}
+							onChange={(e) => emailStore.set(e.target.value)}
+						/>
+						<button
+							type="button"
+							data-testid="clear-email"
+							onClick={() => emailStore.reset()}
+						>
+							Clear
+						</button>
+					</div>
+				);
+			}
+
+			render(<EmailField />);
+			formStore.set({ username: "alice", email: "alice@example.com" });
+
+			await waitFor(() => {
+				expect((screen.getByTestId("email") as HTMLInputElement).value).toBe(
+					"alice@example.com",
+				);
+			});
+
+			act(() => {
+				screen.getByTestId("clear-email").click();
+			});
+
+			await waitFor(() => {
+				expect((screen.getByTestId("email") as HTMLInputElement).value).toBe(
+					"",
+				);
+			});
+			expect(formStore.get()).toEqual({ username: "alice", email: "" });
+		});
 	});
 });
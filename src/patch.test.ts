@@ -0,0 +1,133 @@
+import { applyPatches, diffPatches } from "./patch.js";
+
+describe("diffPatches", () => {
+	it("should return no patches for the same value", () => {
+		const state = { title: "Untitled" };
+
+		expect(diffPatches(state, state)).toEqual([]);
+	});
+
+	it("should replace changed values", () => {
+		expect(
+			diffPatches(
+				{ title: "Untitled", meta: { views: 1 } },
+				{ title: "Notes", meta: { views: 2 } },
+			),
+		).toEqual([
+			{ op: "replace", path: "/title", value: "Notes" },
+			{ op: "replace", path: "/meta/views", value: 2 },
+		]);
+	});
+
+	it("should add and remove object keys", () => {
+		expect(diffPatches({ a: 1, b: 2 }, { b: 2, c: 3 })).toEqual([
+			{ op: "remove", path: "/a" },
+			{ op: "add", path: "/c", value: 3 },
+		]);
+	});
+
+	it("should add and remove array items from the end", () => {
+		expect(diffPatches([1, 2], [1, 2, 3, 4])).toEqual([
+			{ op: "add", path: "/2", value: 3 },
+			{ op: "add", path: "/3", value: 4 },
+		]);
+		expect(diffPatches([1, 2, 3, 4], [1])).toEqual([
+			{ op: "remove", path: "/3" },
+			{ op: "remove", path: "/2" },
+			{ op: "remove", path: "/1" },
+		]);
+	});
+
+	it("should replace the whole state at the root path", () => {
+		expect(diffPatches(1, 2)).toEqual([{ op: "replace", path: "", value: 2 }]);
+		expect(diffPatches({ items: [] }, { items: null })).toEqual([
+			{ op: "replace", path: "/items", value: null },
+		]);
+	});
+
+	it("should replace dates, maps, and sets as a whole", () => {
+		const tags = new Set(["b"]);
+
+		expect(diffPatches({ tags: new Set(["a"]) }, { tags })).toEqual([
+			{ op: "replace", path: "/tags", value: tags },
+		]);
+	});
+
+	it("should skip unchanged branches by identity", () => {
+		const shared = {
+			get expensive(): number {
+				throw new Error("Should not be read");
+			},
+		};
+
+		expect(diffPatches({ shared, count: 1 }, { shared, count: 2 })).toEqual([
+			{ op: "replace", path: "/count", value: 2 },
+		]);
+	});
+
+	it("should escape keys in paths", () => {
+		expect(diffPatches({}, { "a/b~c": 1 })).toEqual([
+			{ op: "add", path: "/a~1b~0c", value: 1 },
+		]);
+	});
+});
+
+describe("applyPatches", () => {
+	it("should apply add, remove, and replace operations", () => {
+		const state = { title: "Untitled", tags: ["a", "c"], draft: true };
+
+		expect(
+			applyPatches(state, [
+				{ op: "replace", path: "/title", value: "Notes" },
+				{ op: "add", path: "/tags/1", value: "b" },
+				{ op: "add", path: "/tags/-", value: "d" },
+				{ op: "remove", path: "/draft" },
+			]),
+		).toEqual({ title: "Notes", tags: ["a", "b", "c", "d"] });
+		expect(state).toEqual({ title: "Untitled", tags: ["a", "c"], draft: true });
+	});
+
+	it("should share unchanged parts of the state", () => {
+		const state = { meta: { views: 1 }, tags: ["a"] };
+
+		const next = applyPatches(state, [
+			{ op: "replace", path: "/meta/views", value: 2 },
+		]);
+
+		expect(next.meta).toEqual({ views: 2 });
+		expect(next.tags).toBe(state.tags);
+	});
+
+	it("should replace the whole state at the root path", () => {
+		expect(applyPatches(1, [{ op: "replace", path: "", value: 2 }])).toBe(2);
+	});
+
+	it("should unescape keys in paths", () => {
+		expect(
+			applyPatches({}, [{ op: "add", path: "/a~1b~0c", value: 1 }]),
+		).toEqual({ "a/b~c": 1 });
+	});
+
+	it("should throw for paths that do not exist", () => {
+		expect(() =>
+			applyPatches({ items: [] }, [
+				{ op: "replace", path: "/items/0/title", value: "Notes" },
+			]),
+		).toThrow('Cannot apply the "replace" patch at "/items/0/title"');
+		expect(() =>
+			applyPatches({ items: [] }, [{ op: "remove", path: "/items/0" }]),
+		).toThrow(/path does not exist/);
+	});
+
+	it("should undo a diff with the inverse diff", () => {
+		const prev = { title: "Untitled", tags: ["a", "b"], meta: { views: 1 } };
+		const next = {
+			title: "Notes",
+			tags: ["a"],
+			meta: { views: 1, pinned: true },
+		};
+
+		expect(applyPatches(prev, diffPatches(prev, next))).toEqual(next);
+		expect(applyPatches(next, diffPatches(next, prev))).toEqual(prev);
+	});
+});
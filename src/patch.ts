@@ -0,0 +1,162 @@
+/**
+ * A JSON Patch operation (RFC 6902) describing a change to the state.
+ * `path` is a JSON Pointer (RFC 6901), where `""` is the whole state.
+ * @see https://datatracker.ietf.org/doc/html/rfc6902
+ */
+export type JsonPatch =
+	| { op: "add"; path: string; value: unknown }
+	| { op: "remove"; path: string }
+	| { op: "replace"; path: string; value: unknown };
+
+/**
+ * Lists the operations that turn `prev` into `next`.
+ * Plain objects and arrays are compared by key, and only walked into when their identity changed.
+ * Other values, including Dates, Maps, and Sets, are replaced as a whole,
+ * so those patch values are not JSON-serializable.
+ */
+export function diffPatches(prev: unknown, next: unknown): JsonPatch[] {
+	const patches: JsonPatch[] = [];
+	diff(prev, next, "", patches);
+	return patches;
+}
+
+function diff(
+	prev: unknown,
+	next: unknown,
+	path: string,
+	patches: JsonPatch[],
+) {
+	if (Object.is(prev, next)) return;
+
+	if (Array.isArray(prev) && Array.isArray(next)) {
+		const common = Math.min(prev.length, next.length);
+		for (let i = 0; i < common; i++) {
+			diff(prev[i], next[i], `${path}/${i}`, patches);
+		}
+		for (let i = common; i < next.length; i++) {
+			patches.push({ op: "add", path: `${path}/${i}`, value: next[i] });
+		}
+		// Remove from the end so earlier indices stay valid.
+		for (let i = prev.length - 1; i >= common; i--) {
+			patches.push({ op: "remove", path: `${path}/${i}` });
+		}
+		return;
+	}
+
+	if (isPlainObject(prev) && isPlainObject(next)) {
+		for (const key of Object.keys(prev)) {
+			const keyPath = `${path}/${escapePointer(key)}`;
+			if (Object.hasOwn(next, key)) {
+				diff(prev[key], next[key], keyPath, patches);
+			} else {
+				patches.push({ op: "remove", path: keyPath });
+			}
+		}
+		for (const key of Object.keys(next)) {
+			if (Object.hasOwn(prev, key)) continue;
+			patches.push({
+				op: "add",
+				path: `${path}/${escapePointer(key)}`,
+				value: next[key],
+			});
+		}
+		return;
+	}
+
+	patches.push({ op: "replace", path, value: next });
+}
+
+/**
+ * Applies JSON Patch operations to a state, returning a new state.
+ * Only the objects and arrays along each patched path are copied.
+ * Useful for applying patches from {@link Store.subscribePatches} to another store, or undoing them with the inverse patches.
+ *
+ * @param state - The state to apply the patches to. It is not modified.
+ * @param patches - The operations to apply, in order.
+ * @returns The patched state.
+ * @example
+ * const documentStore = store({ title: "Untitled", tags: [] as string[] });
+ * let undo: JsonPatch[] = [];
+ * documentStore.subscribePatches((patches, inversePatches) => {
+ *   undo = inversePatches;
+ * });
+ *
+ * documentStore.select("title").set("Notes");
+ * documentStore.set((state) => applyPatches(state, undo));
+ * console.log(documentStore.get().title); // "Untitled"
+ */
+export function applyPatches<T>(state: T, patches: readonly JsonPatch[]): T {
+	let result: unknown = state;
+	for (const patch of patches) {
+		const keys = parsePointer(patch.path);
+		result = keys.length
+			? applyAt(result, keys, patch)
+			: patch.op === "remove"
+				? undefined
+				: patch.value;
+	}
+	return result as T;
+}
+
+function applyAt(
+	node: unknown,
+	keys: string[],
+	patch: JsonPatch,
+	depth = 0,
+): unknown {
+	const key = keys[depth];
+	const last = depth === keys.length - 1;
+	if (Array.isArray(node)) {
+		const copy = [...node];
+		const index = key === "-" ? copy.length : Number(key);
+		if (!Number.isInteger(index) || index < 0 || index > copy.length) {
+			throw invalidPatch(patch);
+		}
+		if (!last) {
+			copy[index] = applyAt(copy[index], keys, patch, depth + 1);
+		} else if (patch.op === "add") {
+			copy.splice(index, 0, patch.value);
+		} else if (index < copy.length) {
+			if (patch.op === "remove") copy.splice(index, 1);
+			else copy[index] = patch.value;
+		} else {
+			throw invalidPatch(patch);
+		}
+		return copy;
+	}
+
+	if (typeof node !== "object" || node === null) throw invalidPatch(patch);
+	const copy: Record<string, unknown> = { ...node };
+	if (!last) {
+		copy[key] = applyAt(copy[key], keys, patch, depth + 1);
+	} else if (patch.op === "remove") {
+		delete copy[key];
+	} else {
+		copy[key] = patch.value;
+	}
+	return copy;
+}
+
+function invalidPatch(patch: JsonPatch) {
+	return new Error(
+		`[@simplestack/store] Cannot apply the "${patch.op}" patch at "${patch.path}" because the path does not exist.`,
+	);
+}
+
+function escapePointer(key: string) {
+	return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function parsePointer(path: string) {
+	if (path === "") return [];
+	return path
+		.slice(1)
+		.split("/")
+		.map((key) => key.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== "object" || value === null) return false;
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,343 @@
+import { type PersistStorage, persistMiddleware, store } from "./index.js";
+
+const createMemoryStorage = (initial: Record<string, string> = {}) => {
+	const items = new Map(Object.entries(initial));
+	return {
+		items,
+		getItem: (key: string) => items.get(key) ?? null,
+		setItem: (key: string, value: string) => {
+			items.set(key, value);
+		},
+	} satisfies PersistStorage & { items: Map<string, string> };
+};
+
+const createAsyncStorage = (initial: Record<string, string> = {}) => {
+	const storage = createMemoryStorage(initial);
+	let resolveLoad: () => void = () => {};
+	const loaded = new Promise<void>((resolve) => {
+		resolveLoad = resolve;
+	});
+	return {
+		...storage,
+		resolveLoad,
+		getItem: async (key: string) => {
+			await loaded;
+			return storage.getItem(key);
+		},
+		setItem: async (key: string, value: string) => {
+			storage.setItem(key, value);
+		},
+	} satisfies PersistStorage & { resolveLoad: () => void };
+};
+
+describe("persistMiddleware", () => {
+	afterEach(() => {
+		localStorage.clear();
+		sessionStorage.clear();
+	});
+
+	it("saves updates to localStorage by default", () => {
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count" })],
+		});
+
+		countStore.set(3);
+
+		expect(JSON.parse(localStorage.getItem("count") ?? "")).toEqual({
+			state: 3,
+			version: 0,
+		});
+	});
+
+	it("rehydrates from localStorage on creation", () => {
+		localStorage.setItem("count", JSON.stringify({ state: 7, version: 0 }));
+
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count" })],
+		});
+
+		expect(countStore.get()).toBe(7);
+	});
+
+	it("supports sessionStorage", () => {
+		sessionStorage.setItem("count", JSON.stringify({ state: 2, version: 0 }));
+
+		const countStore = store(0, {
+			middleware: [
+				persistMiddleware({ key: "count", storage: "sessionStorage" }),
+			],
+		});
+		expect(countStore.get()).toBe(2);
+
+		countStore.set(4);
+		expect(JSON.parse(sessionStorage.getItem("count") ?? "").state).toBe(4);
+		expect(localStorage.getItem("count")).toBeNull();
+	});
+
+	it("does not write back while rehydrating", () => {
+		const storage = createMemoryStorage({
+			count: JSON.stringify({ state: 7, version: 0 }),
+		});
+		const setItem = vi.spyOn(storage, "setItem");
+
+		store(0, { middleware: [persistMiddleware({ key: "count", storage })] });
+
+		expect(setItem).not.toHaveBeenCalled();
+	});
+
+	it("only saves the partialized state and merges it on rehydrate", () => {
+		const storage = createMemoryStorage();
+		const middleware = persistMiddleware({
+			key: "settings",
+			storage,
+			partialize: (state: { theme: string; sidebarOpen: boolean }) => ({
+				theme: state.theme,
+			}),
+		});
+
+		const settingsStore = store(
+			{ theme: "light", sidebarOpen: true },
+			{ middleware: [middleware] },
+		);
+		settingsStore.set({ theme: "dark", sidebarOpen: false });
+
+		expect(JSON.parse(storage.items.get("settings") ?? "").state).toEqual({
+			theme: "dark",
+		});
+
+		const rehydratedStore = store(
+			{ theme: "light", sidebarOpen: true },
+			{ middleware: [middleware] },
+		);
+		expect(rehydratedStore.get()).toEqual({ theme: "dark", sidebarOpen: true });
+	});
+
+	it("migrates state saved with an older version", () => {
+		const storage = createMemoryStorage({
+			user: JSON.stringify({ state: { name: "Ada Lovelace" }, version: 1 }),
+		});
+		const migrate = vi.fn((persisted: unknown) => {
+			const [first, last] = (persisted as { name: string }).name.split(" ");
+			return { first, last };
+		});
+
+		const userStore = store(
+			{ first: "", last: "" },
+			{
+				middleware: [
+					persistMiddleware({ key: "user", storage, version: 2, migrate }),
+				],
+			},
+		);
+
+		expect(migrate).toHaveBeenCalledWith({ name: "Ada Lovelace" }, 1);
+		expect(userStore.get()).toEqual({ first: "Ada", last: "Lovelace" });
+	});
+
+	it("discards state with a different version when there is no migrate", () => {
+		const storage = createMemoryStorage({
+			count: JSON.stringify({ state: 7, version: 1 }),
+		});
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count", storage, version: 2 })],
+		});
+
+		expect(countStore.get()).toBe(0);
+		warn.mockRestore();
+	});
+
+	it("ignores saved state that cannot be parsed", () => {
+		const storage = createMemoryStorage({ count: "{not json" });
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count", storage })],
+		});
+
+		expect(countStore.get()).toBe(0);
+		warn.mockRestore();
+	});
+
+	it("ignores saved values that are not persisted state", () => {
+		const storage = createMemoryStorage({ count: "null" });
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const onRehydrated = vi.fn();
+
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count", storage, onRehydrated })],
+		});
+
+		expect(countStore.get()).toBe(0);
+		expect(onRehydrated).toHaveBeenCalledWith(0);
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	it("ignores invalid saved values from an async storage adapter", async () => {
+		const storage = createAsyncStorage({ count: "[1]" });
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const onRehydrated = vi.fn();
+
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count", storage, onRehydrated })],
+		});
+		storage.resolveLoad();
+
+		await vi.waitFor(() => expect(onRehydrated).toHaveBeenCalledWith(0));
+		expect(countStore.get()).toBe(0);
+		warn.mockRestore();
+	});
+
+	it("ignores saved state when migrate throws", () => {
+		const storage = createMemoryStorage({
+			count: JSON.stringify({ state: "7", version: 1 }),
+		});
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		const countStore = store(0, {
+			middleware: [
+				persistMiddleware({
+					key: "count",
+					storage,
+					version: 2,
+					migrate: () => {
+						throw new Error("Unknown version");
+					},
+				}),
+			],
+		});
+
+		expect(countStore.get()).toBe(0);
+		expect(warn).toHaveBeenCalledWith(
+			"[@simplestack/store] Failed to load persisted state:",
+			new Error("Unknown version"),
+		);
+		warn.mockRestore();
+	});
+
+	it("calls onRehydrated with the rehydrated state", () => {
+		const storage = createMemoryStorage({
+			count: JSON.stringify({ state: 7, version: 0 }),
+		});
+		const onRehydrated = vi.fn();
+
+		store(0, {
+			middleware: [persistMiddleware({ key: "count", storage, onRehydrated })],
+		});
+
+		expect(onRehydrated).toHaveBeenCalledWith(7);
+	});
+
+	it("calls onRehydrated when nothing was saved", () => {
+		const onRehydrated = vi.fn();
+
+		store(0, {
+			middleware: [
+				persistMiddleware({
+					key: "count",
+					storage: createMemoryStorage(),
+					onRehydrated,
+				}),
+			],
+		});
+
+		expect(onRehydrated).toHaveBeenCalledWith(0);
+	});
+
+	it("rehydrates from an async storage adapter", async () => {
+		const storage = createAsyncStorage({
+			count: JSON.stringify({ state: 7, version: 0 }),
+		});
+		const onRehydrated = vi.fn();
+
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count", storage, onRehydrated })],
+		});
+		expect(countStore.get()).toBe(0);
+
+		storage.resolveLoad();
+		await vi.waitFor(() => expect(onRehydrated).toHaveBeenCalledWith(7));
+		expect(countStore.get()).toBe(7);
+	});
+
+	it("keeps updates made while an async adapter is loading", async () => {
+		const storage = createAsyncStorage({
+			count: JSON.stringify({ state: 7, version: 0 }),
+		});
+		const onRehydrated = vi.fn();
+
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count", storage, onRehydrated })],
+		});
+		countStore.set(3);
+
+		storage.resolveLoad();
+		await vi.waitFor(() => expect(onRehydrated).toHaveBeenCalledWith(3));
+		expect(countStore.get()).toBe(3);
+		expect(JSON.parse(storage.items.get("count") ?? "").state).toBe(3);
+	});
+
+	it("skips rehydrating after the store is destroyed", async () => {
+		const storage = createAsyncStorage({
+			count: JSON.stringify({ state: 7, version: 0 }),
+		});
+		const onRehydrated = vi.fn();
+
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count", storage, onRehydrated })],
+		});
+		countStore.destroy();
+
+		storage.resolveLoad();
+		await new Promise((resolve) => setTimeout(resolve));
+		expect(onRehydrated).not.toHaveBeenCalled();
+		expect(countStore.get()).toBe(0);
+	});
+
+	it("removes the saved state when the store is reset", () => {
+		const storage = {
+			...createMemoryStorage(),
+			removeItem: vi.fn(),
+		} satisfies PersistStorage;
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count", storage })],
+		});
+		countStore.set(3);
+		const setItem = vi.spyOn(storage, "setItem");
+
+		countStore.reset();
+
+		expect(countStore.get()).toBe(0);
+		expect(storage.removeItem).toHaveBeenCalledWith("count");
+		expect(setItem).not.toHaveBeenCalled();
+	});
+
+	it("saves the initial state on reset when the storage cannot remove items", () => {
+		const storage = createMemoryStorage();
+		const countStore = store(0, {
+			middleware: [persistMiddleware({ key: "count", storage })],
+		});
+		countStore.set(3);
+
+		countStore.reset();
+
+		expect(JSON.parse(storage.items.get("count") ?? "").state).toBe(0);
+	});
+
+	it("persists updates from selected stores", () => {
+		const storage = createMemoryStorage();
+		const documentStore = store(
+			{ title: "Untitled", tags: ["draft"] },
+			{ middleware: [persistMiddleware({ key: "document", storage })] },
+		);
+
+		documentStore.select("title").set("Notes");
+
+		expect(JSON.parse(storage.items.get("document") ?? "").state).toEqual({
+			title: "Notes",
+			tags: ["draft"],
+		});
+	});
+});
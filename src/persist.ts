@@ -0,0 +1,256 @@
+import { DEV } from "esm-env";
+import type { StateObject, StatePrimitive, StoreMiddleware } from "./index.js";
+
+/**
+ * Storage adapter used by {@link persistMiddleware}.
+ * `localStorage` and `sessionStorage` satisfy this interface,
+ * and async adapters (ex. IndexedDB wrappers) may return promises.
+ */
+export type PersistStorage = {
+	getItem: (key: string) => string | null | Promise<string | null>;
+	setItem: (key: string, value: string) => void | Promise<void>;
+	/**
+	 * Called when the store is reset. When omitted, the initial state is saved instead.
+	 */
+	removeItem?: (key: string) => void | Promise<void>;
+};
+
+export type PersistOptions<T extends StateObject | StatePrimitive, P = T> = {
+	/** The key to save the state under. */
+	key: string;
+	/**
+	 * Where to save the state. Defaults to `"localStorage"`.
+	 * Persistence is skipped when the storage is unavailable, like during SSR.
+	 */
+	storage?: "localStorage" | "sessionStorage" | PersistStorage;
+	/**
+	 * Choose which part of the state to save.
+	 * Defaults to the full state.
+	 */
+	partialize?: (state: T) => P;
+	/**
+	 * The version of the saved state. Defaults to `0`.
+	 * When the saved version differs, `migrate` is called before rehydrating.
+	 */
+	version?: number;
+	/**
+	 * Migrate state saved with an older `version`.
+	 * Saved state with a different version is discarded if `migrate` is not provided.
+	 */
+	migrate?: (persisted: unknown, version: number) => P;
+	/**
+	 * Combine the saved state with the current state.
+	 * Defaults to a shallow merge for objects, and replacing the state otherwise.
+	 */
+	merge?: (persisted: P, current: T) => T;
+	/**
+	 * Called once the saved state has been applied,
+	 * or once it is known that nothing was saved.
+	 */
+	onRehydrated?: (state: T) => void;
+};
+
+type PersistedValue = { state: unknown; version: number };
+
+/**
+ * Saves store updates to a storage adapter and rehydrates the store on creation.
+ * Resetting the store removes the saved state.
+ * Use this in the `middleware` array when creating a store.
+ *
+ * @example
+ * const settingsStore = store(
+ *   { theme: "light", sidebarOpen: true },
+ *   {
+ *     middleware: [
+ *       persistMiddleware({
+ *         key: "settings",
+ *         partialize: (state) => ({ theme: state.theme }),
+ *       }),
+ *     ],
+ *   },
+ * );
+ */
+export const persistMiddleware =
+	<T extends StateObject | StatePrimitive, P = T>(
+		options: PersistOptions<T, P>,
+	): StoreMiddleware<T> =>
+	(store) => {
+		const storage = resolveStorage(options.storage ?? "localStorage");
+		if (!storage) return {};
+
+		const version = options.version ?? 0;
+		const partialize = options.partialize ?? ((state: T) => state as never);
+		const merge = options.merge ?? defaultMerge;
+
+		let hydrating = false;
+		let resetting = false;
+		let updated = false;
+		let destroyed = false;
+
+		const save = () => {
+			const value: PersistedValue = {
+				state: partialize(store.get()),
+				version,
+			};
+			try {
+				const result = storage.setItem(options.key, JSON.stringify(value));
+				if (isPromise(result)) result.catch(warnSaveFailed);
+			} catch (error) {
+				warnSaveFailed(error);
+			}
+		};
+
+		const remove = () => {
+			if (!storage.removeItem) {
+				save();
+				return;
+			}
+			try {
+				const result = storage.removeItem(options.key);
+				if (isPromise(result)) result.catch(warnSaveFailed);
+			} catch (error) {
+				warnSaveFailed(error);
+			}
+		};
+
+		const rehydrate = (raw: string | null) => {
+			const persisted = raw == null ? undefined : parse(raw, options);
+			if (persisted) {
+				hydrating = true;
+				try {
+					store.set((current) => merge(persisted.state, current));
+				} finally {
+					hydrating = false;
+				}
+			}
+			options.onRehydrated?.(store.get());
+		};
+
+		return {
+			init: () => {
+				let raw: ReturnType<PersistStorage["getItem"]>;
+				try {
+					raw = storage.getItem(options.key);
+				} catch (error) {
+					warnLoadFailed(error);
+					raw = null;
+				}
+
+				if (!isPromise(raw)) {
+					rehydrate(raw);
+					return;
+				}
+				raw.then(
+					(value) => {
+						if (destroyed) return;
+						// Keep updates made while the saved state was loading.
+						rehydrate(updated ? null : value);
+					},
+					(error) => {
+						warnLoadFailed(error);
+						if (!destroyed) rehydrate(null);
+					},
+				);
+				return () => {
+					destroyed = true;
+				};
+			},
+			set: (next) => (setter) => {
+				next(setter);
+				if (hydrating) return;
+				updated = true;
+				if (!resetting) save();
+			},
+			reset: (next) => () => {
+				resetting = true;
+				try {
+					next();
+				} finally {
+					resetting = false;
+				}
+				remove();
+			},
+		};
+	};
+
+function resolveStorage(
+	storage: PersistStorage | "localStorage" | "sessionStorage",
+): PersistStorage | undefined {
+	if (typeof storage !== "string") return storage;
+	try {
+		// Accessing web storage can throw in sandboxed iframes or when cookies are blocked.
+		return globalThis[storage] ?? undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function parse<T extends StateObject | StatePrimitive, P>(
+	raw: string,
+	options: PersistOptions<T, P>,
+): { state: P } | undefined {
+	let value: unknown;
+	try {
+		value = JSON.parse(raw);
+	} catch (error) {
+		warnLoadFailed(error);
+		return undefined;
+	}
+	// Storage may hold values written by something else, like `"null"`.
+	if (!isPersistedValue(value)) {
+		warnLoadFailed(
+			new TypeError(`Expected { state, version } under "${options.key}".`),
+		);
+		return undefined;
+	}
+
+	const version = options.version ?? 0;
+	if (value.version === version) return { state: value.state as P };
+	if (options.migrate) {
+		try {
+			return { state: options.migrate(value.state, value.version) };
+		} catch (error) {
+			warnLoadFailed(error);
+			return undefined;
+		}
+	}
+	if (DEV) {
+		console.warn(
+			`[@simplestack/store] Discarded persisted state for "${options.key}" because its version (${value.version}) does not match (${version}). Pass a \`migrate\` function to keep it.`,
+		);
+	}
+	return undefined;
+}
+
+function defaultMerge<T, P>(persisted: P, current: T): T {
+	if (isPlainObject(persisted) && isPlainObject(current)) {
+		return { ...current, ...persisted };
+	}
+	return persisted as unknown as T;
+}
+
+function isPersistedValue(value: unknown): value is PersistedValue {
+	return (
+		isPlainObject(value) &&
+		Object.hasOwn(value, "state") &&
+		typeof value.version === "number"
+	);
+}
+
+function isPlainObject(value: unknown): value is StateObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+	return typeof (value as Promise<T> | undefined)?.then === "function";
+}
+
+function warnSaveFailed(error: unknown) {
+	if (!DEV) return;
+	console.warn("[@simplestack/store] Failed to persist state:", error);
+}
+
+function warnLoadFailed(error: unknown) {
+	if (!DEV) return;
+	console.warn("[@simplestack/store] Failed to load persisted state:", error);
+}
@@ -0,0 +1,91 @@
+import { effect } from "@preact/signals-core";
+import { computed, store } from "./index.js";
+import { toSignal } from "./preact.js";
+import { nextTick } from "./test-utils.js";
+
+describe("toSignal", () => {
+	it("should return the current value of the store", () => {
+		const count = toSignal(store(5));
+
+		expect(count.value).toBe(5);
+	});
+
+	it("should be tracked by Preact effects", async () => {
+		const countStore = store(0);
+		const count = toSignal(countStore);
+		const seen: number[] = [];
+
+		const dispose = effect(() => {
+			seen.push(count.value);
+		});
+
+		countStore.set(1);
+		await nextTick();
+		countStore.set(2);
+		await nextTick();
+
+		expect(seen).toEqual([0, 1, 2]);
+		dispose();
+	});
+
+	it("should re-run effects synchronously", () => {
+		const countStore = store(0);
+		const count = toSignal(countStore);
+		const seen: number[] = [];
+
+		const dispose = effect(() => {
+			seen.push(count.value);
+		});
+
+		countStore.set(1);
+		expect(count.value).toBe(1);
+		countStore.set(2);
+
+		expect(seen).toEqual([0, 1, 2]);
+		dispose();
+	});
+
+	it("should support selected and computed stores", async () => {
+		const documentStore = store({ title: "Untitled" });
+		const title = toSignal(documentStore.select("title"));
+		const upper = toSignal(
+			computed(documentStore.select("title"), (t) => t.toUpperCase()),
+		);
+		const seen: string[] = [];
+
+		const dispose = effect(() => {
+			seen.push(`${title.value}/${upper.value}`);
+		});
+
+		documentStore.select("title").set("Notes");
+		await nextTick();
+
+		expect(seen.at(0)).toBe("Untitled/UNTITLED");
+		expect(seen.at(-1)).toBe("Notes/NOTES");
+		dispose();
+	});
+
+	it("should only subscribe to the store while watched", async () => {
+		const countStore = store(0);
+		const subscribe = vi.spyOn(countStore, "subscribe");
+		const count = toSignal(countStore);
+
+		expect(subscribe).not.toHaveBeenCalled();
+
+		const dispose = effect(() => {
+			count.value;
+		});
+		expect(subscribe).toHaveBeenCalledTimes(1);
+		dispose();
+
+		countStore.set(1);
+		await nextTick();
+
+		const seen: number[] = [];
+		const disposeAgain = effect(() => {
+			seen.push(count.value);
+		});
+		expect(seen).toEqual([1]);
+		disposeAgain();
+	});
+});
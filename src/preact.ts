@@ -0,0 +1,44 @@
+import { computed, type ReadonlySignal, signal } from "@preact/signals-core";
+import type { ReadonlyStore, StateObject, StatePrimitive } from "./index.js";
+
+/**
+ * Read the state of the store as a Preact signal.
+ * The store is only subscribed to while the signal is in use by a component, `effect`, or `computed`,
+ * so the signal can be created once at module scope.
+ * Outside of those, the signal may hold a stale value. Use `store.get()` to read the latest state.
+ * @param store - The store to read. Selected and computed stores are supported.
+ * @returns A read-only signal of the current state.
+ * @example
+ * const countStore = store(0);
+ * const count = toSignal(countStore);
+ *
+ * function Counter() {
+ *   return <button onClick={() => countStore.set((n) => n + 1)}>{count}</button>;
+ * }
+ */
+export function toSignal<T extends StateObject | StatePrimitive>(
+	store: ReadonlyStore<T>,
+): ReadonlySignal<T> {
+	// Preact tracks reads of `version`, and the subscription re-runs them when the store changes.
+	let unsubscribe: (() => void) | undefined;
+	const version = signal(0, {
+		watched() {
+			// Catch up on updates missed while unwatched.
+			version.value++;
+			unsubscribe = store.subscribe(
+				() => {
+					version.value++;
+				},
+				{ fireImmediately: false, sync: true },
+			);
+		},
+		unwatched() {
+			unsubscribe?.();
+			unsubscribe = undefined;
+		},
+	});
+	return computed(() => {
+		version.value;
+		return store.get();
+	});
+}
@@ -0,0 +1,231 @@
+import { produce, type Store, store } from "./index.js";
+
+describe("produce", () => {
+	it("should apply mutations to a copy of the state", () => {
+		const state = { title: "Untitled", meta: { tags: ["draft"] } };
+
+		const next = produce<typeof state>((draft) => {
+			draft.title = "Notes";
+			draft.meta.tags.push("final");
+		})(state);
+
+		expect(next).toEqual({
+			title: "Notes",
+			meta: { tags: ["draft", "final"] },
+		});
+		expect(state).toEqual({ title: "Untitled", meta: { tags: ["draft"] } });
+	});
+
+	it("should share unchanged parts of the state", () => {
+		const state = {
+			meta: { tags: ["draft"], author: { name: "Ada" } },
+			comments: [{ text: "Hi" }],
+		};
+
+		const next = produce<typeof state>((draft) => {
+			draft.meta.tags.push("final");
+		})(state);
+
+		expect(next).not.toBe(state);
+		expect(next.meta).not.toBe(state.meta);
+		expect(next.meta.author).toBe(state.meta.author);
+		expect(next.comments).toBe(state.comments);
+	});
+
+	it("should return the same state when nothing changes", () => {
+		const state = { count: 1, items: [{ id: 1 }] };
+
+		const next = produce<typeof state>((draft) => {
+			draft.count = 1;
+			draft.items[0].id;
+		})(state);
+
+		expect(next).toBe(state);
+	});
+
+	it("should support deleting keys", () => {
+		const state: { users: Record<string, { name: string }> } = {
+			users: { a: { name: "Ada" }, b: { name: "Grace" } },
+		};
+
+		const next = produce<typeof state>((draft) => {
+			delete draft.users.a;
+		})(state);
+
+		expect(next).toEqual({ users: { b: { name: "Grace" } } });
+		expect(next.users.b).toBe(state.users.b);
+	});
+
+	it("should support array methods", () => {
+		const state = { items: [{ id: 1 }, { id: 2 }, { id: 3 }] };
+
+		const next = produce<typeof state>((draft) => {
+			draft.items.shift();
+			draft.items[0].id = 20;
+			draft.items.reverse();
+		})(state);
+
+		expect(next).toEqual({ items: [{ id: 3 }, { id: 20 }] });
+		expect(next.items[0]).toBe(state.items[2]);
+		expect(state.items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+	});
+
+	it("should read the latest values from the draft", () => {
+		const state = { items: [1, 2], total: 0 };
+
+		const next = produce<typeof state>((draft) => {
+			draft.items.push(3);
+			draft.total = draft.items.reduce((sum, item) => sum + item, 0);
+			expect(Object.keys(draft)).toEqual(["items", "total"]);
+			expect({ ...draft.items }).toEqual({ 0: 1, 1: 2, 2: 3 });
+			expect(Array.isArray(draft.items)).toBe(true);
+		})(state);
+
+		expect(next).toEqual({ items: [1, 2, 3], total: 6 });
+	});
+
+	it("should finalize drafts assigned to other keys", () => {
+		const state = { a: { value: 1 }, b: { value: 2 } };
+
+		const next = produce<typeof state>((draft) => {
+			draft.a.value = 10;
+			draft.b = draft.a;
+		})(state);
+
+		expect(next).toEqual({ a: { value: 10 }, b: { value: 10 } });
+		expect(next.a).toBe(next.b);
+	});
+
+	it("should replace the state with a returned value", () => {
+		const replaced = produce<{ count: number }>(() => ({ count: 5 }))({
+			count: 1,
+		});
+		const incremented = produce<number>((count) => count + 1)(1);
+
+		expect(replaced).toEqual({ count: 5 });
+		expect(incremented).toBe(2);
+	});
+
+	it("should finalize drafts held by a returned value", () => {
+		const documentStore = store({
+			title: "Untitled",
+			meta: { tags: ["draft"] },
+			list: [1],
+		});
+
+		documentStore.set(produce((draft) => ({ ...draft, list: [2] })));
+
+		expect(documentStore.get()).toEqual({
+			title: "Untitled",
+			meta: { tags: ["draft"] },
+			list: [2],
+		});
+		expect(JSON.stringify(documentStore.get())).toBe(
+			'{"title":"Untitled","meta":{"tags":["draft"]},"list":[2]}',
+		);
+	});
+
+	it("should finalize drafts held by new objects", () => {
+		type State = {
+			nested: { value: number };
+			wrapper?: { inner: { value: number } }[];
+		};
+		const state: State = Object.freeze({
+			nested: Object.freeze({ value: 1 }),
+		});
+
+		const next = produce<State>((draft) => {
+			draft.nested.value = 2;
+			draft.wrapper = [{ inner: draft.nested }];
+		})(state);
+
+		expect(next.wrapper?.[0].inner).toBe(next.nested);
+		expect(next.nested).toEqual({ value: 2 });
+		expect(state.nested).toEqual({ value: 1 });
+	});
+
+	it("should replace the state only when a value is returned", () => {
+		const recipe = produce<{ count: number }>((draft) => {
+			if (draft.count < 0) return { count: 0 };
+			draft.count++;
+		});
+
+		expect(recipe({ count: -5 })).toEqual({ count: 0 });
+		expect(recipe({ count: 1 })).toEqual({ count: 2 });
+		// @ts-expect-error - the returned value must match the state
+		produce<{ count: number }>(() => ({ total: 5 }));
+	});
+
+	it("should draft frozen state", () => {
+		const state = Object.freeze({
+			items: Object.freeze([Object.freeze({ id: 1 })]),
+		}) as { items: { id: number }[] };
+
+		const next = produce<{ items: { id: number }[] }>((draft) => {
+			draft.items[0].id = 2;
+		})(state);
+
+		expect(next).toEqual({ items: [{ id: 2 }] });
+	});
+
+	it("should not draft dates, maps, or sets", () => {
+		const state = { at: new Date(0), tags: new Set(["a"]) };
+
+		const next = produce<typeof state>((draft) => {
+			draft.at = new Date(1);
+			draft.tags = new Set([...draft.tags, "b"]);
+		})(state);
+
+		expect(next.at.getTime()).toBe(1);
+		expect([...next.tags]).toEqual(["a", "b"]);
+		expect(state.tags.size).toBe(1);
+	});
+
+	it("should revoke drafts after the recipe finishes", () => {
+		let leaked: { count: number } | undefined;
+
+		produce<{ nested: { count: number } }>((draft) => {
+			leaked = draft.nested;
+		})({ nested: { count: 1 } });
+
+		expect(() => leaked?.count).toThrow(TypeError);
+	});
+
+	it("should work as a store setter", () => {
+		const documentStore = store({
+			title: "Untitled",
+			meta: { tags: [] as string[], views: 0 },
+		});
+		const titleStore = documentStore.select("title");
+		const { title } = documentStore.get();
+
+		documentStore.set(
+			produce((draft) => {
+				draft.meta.tags.push("draft");
+				draft.meta.views++;
+			}),
+		);
+
+		expect(documentStore.get()).toEqual({
+			title: "Untitled",
+			meta: { tags: ["draft"], views: 1 },
+		});
+		expect(titleStore.get()).toBe(title);
+	});
+
+	it("should work as a setter for selected stores", () => {
+		const appStore = store({ user: { tags: ["a"] }, theme: "dark" });
+		const userStore: Store<{ tags: string[] }> = appStore.select("user");
+
+		userStore.set(
+			produce((draft) => {
+				draft.tags.push("b");
+			}),
+		);
+
+		expect(appStore.get()).toEqual({
+			user: { tags: ["a", "b"] },
+			theme: "dark",
+		});
+	});
+});
@@ -0,0 +1,227 @@
+/**
+ * A mutable version of the state, passed to {@link produce} recipes.
+ * Dates, Maps, and Sets are not drafted, so replace them instead of mutating them.
+ */
+export type Draft<T> = T extends
+	| string
+	| number
+	| boolean
+	| bigint
+	| symbol
+	| null
+	| undefined
+	| Date
+	| ReadonlyMap<unknown, unknown>
+	| ReadonlySet<unknown>
+	| ((...args: never[]) => unknown)
+	? T
+	: { -readonly [K in keyof T]: Draft<T[K]> };
+
+// Plain objects and arrays.
+type Draftable = Record<PropertyKey, unknown>;
+
+type DraftState = {
+	base: Draftable;
+	// Created on the first write. Holds child drafts until the draft is finalized.
+	copy: Draftable | undefined;
+	parent: DraftState | undefined;
+	drafts: Map<PropertyKey, Draftable>;
+	result?: { value: Draftable };
+};
+
+const draftStates = new WeakMap<object, DraftState>();
+
+/**
+ * Creates a setter that applies mutations to a draft of the state.
+ * Only the objects and arrays that were changed are copied, so unchanged parts of the state keep their identity.
+ * Return a value from the recipe to replace the state instead.
+ *
+ * @param recipe - Receives a draft of the current state to mutate.
+ * @returns A setter that can be passed to `store.set()`.
+ * @example
+ * const documentStore = store({
+ *   title: "Untitled",
+ *   meta: { tags: [] as string[], updatedAt: 0 },
+ * });
+ *
+ * documentStore.set(
+ *   produce((draft) => {
+ *     draft.meta.tags.push("draft");
+ *     draft.meta.updatedAt = Date.now();
+ *   }),
+ * );
+ */
+export function produce<T>(
+	recipe: (draft: Draft<T>) => undefined,
+): (state: T) => T;
+export function produce<T>(
+	recipe: (draft: Draft<T>) => Draft<T> | undefined,
+): (state: T) => T;
+export function produce<T>(
+	recipe: (draft: Draft<T>) => Draft<T> | undefined,
+): (state: T) => T {
+	return (state) => {
+		if (!isDraftable(state)) {
+			const result = recipe(state as Draft<T>);
+			return (result === undefined ? state : result) as T;
+		}
+
+		const revokes: (() => void)[] = [];
+		try {
+			const draft = createDraft(state, undefined, revokes) as Draft<T>;
+			const result = recipe(draft);
+			return finalize(result === undefined ? draft : result) as T;
+		} finally {
+			// Drafts cannot be used once the recipe has finished.
+			for (const revoke of revokes) revoke();
+		}
+	};
+}
+
+function createDraft(
+	base: Draftable,
+	parent: DraftState | undefined,
+	revokes: (() => void)[],
+): Draftable {
+	const state: DraftState = {
+		base,
+		copy: undefined,
+		parent,
+		drafts: new Map(),
+	};
+	const latest = () => state.copy ?? state.base;
+
+	// The proxy target is an empty placeholder, so frozen state does not break proxy invariants.
+	const target = Array.isArray(base)
+		? []
+		: Object.create(Object.getPrototypeOf(base));
+	const { proxy, revoke } = Proxy.revocable(target, {
+		get: (_, key) => {
+			if (state.drafts.has(key)) return state.drafts.get(key);
+			const current = latest();
+			const value = Reflect.get(current, key);
+			if (
+				!Object.hasOwn(current, key) ||
+				!isDraftable(value) ||
+				draftStates.has(value)
+			) {
+				return value;
+			}
+			const draft = createDraft(value, state, revokes);
+			state.drafts.set(key, draft);
+			return draft;
+		},
+		set: (_, key, value) => {
+			const current = latest();
+			const existing = state.drafts.has(key)
+				? state.drafts.get(key)
+				: current[key];
+			if (Object.hasOwn(current, key) && Object.is(existing, value)) {
+				return true;
+			}
+			state.drafts.delete(key);
+			markChanged(state)[key] = value;
+			return true;
+		},
+		deleteProperty: (_, key) => {
+			if (!Object.hasOwn(latest(), key)) return true;
+			state.drafts.delete(key);
+			delete markChanged(state)[key];
+			return true;
+		},
+		has: (_, key) => key in latest(),
+		ownKeys: () => Reflect.ownKeys(latest()),
+		getOwnPropertyDescriptor: (_, key) => {
+			const descriptor = Reflect.getOwnPropertyDescriptor(latest(), key);
+			if (!descriptor) return undefined;
+			return {
+				...descriptor,
+				// Array `length` must match the placeholder target, which is not configurable.
+				configurable: key !== "length" || !Array.isArray(base),
+				writable: true,
+				value: state.drafts.has(key) ? state.drafts.get(key) : descriptor.value,
+			};
+		},
+		defineProperty: () => {
+			throw new TypeError(
+				"[@simplestack/store] defineProperty() is not supported on drafts.",
+			);
+		},
+		setPrototypeOf: () => {
+			throw new TypeError(
+				"[@simplestack/store] setPrototypeOf() is not supported on drafts.",
+			);
+		},
+	});
+	revokes.push(revoke);
+	draftStates.set(proxy, state);
+	return proxy;
+}
+
+function markChanged(state: DraftState): Draftable {
+	if (state.copy) return state.copy;
+	const copy: Draftable = Array.isArray(state.base)
+		? ([...state.base] as unknown as Draftable)
+		: Object.assign(
+				Object.create(Object.getPrototypeOf(state.base)),
+				state.base,
+			);
+	state.copy = copy;
+	if (state.parent) markChanged(state.parent);
+	return copy;
+}
+
+function finalize(value: unknown, seen = new WeakSet<object>()): unknown {
+	if (!isDraftable(value)) return value;
+	const state = draftStates.get(value);
+	if (!state) return finalizeContainer(value, seen);
+	if (state.result) return state.result.value;
+	if (!state.copy) {
+		state.result = { value: state.base };
+		return state.base;
+	}
+
+	const copy = state.copy;
+	state.result = { value: copy };
+	for (const [key, draft] of state.drafts) {
+		copy[key] = finalize(draft, seen);
+	}
+	// Drafts may also be assigned to other keys, like `draft.b = draft.a`,
+	// or held by new objects, like `draft.b = { a: draft.a }`.
+	// Unchanged values from the base state cannot hold drafts.
+	for (const key of Reflect.ownKeys(copy)) {
+		if (
+			Object.hasOwn(state.base, key) &&
+			Object.is(copy[key], state.base[key])
+		) {
+			continue;
+		}
+		copy[key] = finalize(copy[key], seen);
+	}
+	return copy;
+}
+
+// Plain objects and arrays created in the recipe may hold drafts, like `{ ...draft }`.
+// They are copied when a draft is replaced, so frozen values are not mutated.
+function finalizeContainer(value: Draftable, seen: WeakSet<object>): Draftable {
+	if (seen.has(value)) return value;
+	seen.add(value);
+	let copy: Draftable | undefined;
+	for (const key of Reflect.ownKeys(value)) {
+		const child = value[key];
+		const next = finalize(child, seen);
+		if (Object.is(child, next)) continue;
+		copy ??= Array.isArray(value)
+			? ([...value] as unknown as Draftable)
+			: Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+		(copy as Draftable)[key] = next;
+	}
+	return copy ?? value;
+}
+
+function isDraftable(value: unknown): value is Draftable {
+	if (Array.isArray(value)) return true;
+	if (typeof value !== "object" || value === null) return false;
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
@@ -5,9 +5,14 @@ import {
 	screen,
 	waitFor,
 } from "@testing-library/react";
-import { act } from "react";
-import { store } from "./index.js";
-import { useShallow, useStoreValue } from "./react.js";
+import { act, Component, type ReactNode, Suspense } from "react";
+import { asyncStore, computed, store } from "./index.js";
+import {
+	createStoreContext,
+	useShallow,
+	useStoreSuspense,
+	useStoreValue,
+} from "./react.js";
 
 describe("useStoreValue", () => {
 	describe("basic usage", () => {
@@ -196,6 +201,32 @@ describe("useStoreValue", () => {
 			expect(renderSpy.mock.calls.length).toBe(initialRenderCount);
 		});
 
+		it("should not resubscribe when selecting inline", async () => {
+			const objStore = store({ name: "Alice", age: 30 });
+			const subscribe = vi.spyOn(objStore.select("name"), "subscribe");
+
+			function TestComponent() {
+				const name = useStoreValue(objStore.select("name"));
+				const age = useStoreValue(objStore.select("age"));
+				return (
+					<div data-testid="person">
+						{name} {age}
+					</div>
+				);
+			}
+
+			render(<TestComponent />);
+
+			act(() => {
+				objStore.select("age").set(31);
+			});
+
+			await waitFor(() => {
+				expect(screen.getByTestId("person")).toHaveTextContent("Alice 31");
+			});
+			expect(subscribe).toHaveBeenCalledTimes(1);
+		});
+
 		it("should work with deeply nested selections", async () => {
 			const docStore = store({
 				meta: {
@@ -218,6 +249,54 @@ describe("useStoreValue", () => {
 		});
 	});
 
+	describe("computed stores", () => {
+		it("should return the derived value", () => {
+			const countStore = store(2);
+			const doubledStore = computed(countStore, (count) => count * 2);
+			const { result } = renderHook(() => useStoreValue(doubledStore));
+
+			expect(result.current).toBe(4);
+		});
+
+		it("should update when a source store changes", async () => {
+			const countStore = store(2);
+			const doubledStore = computed(countStore, (count) => count * 2);
+			const { result } = renderHook(() => useStoreValue(doubledStore));
+
+			act(() => {
+				countStore.set(3);
+			});
+
+			await waitFor(() => {
+				expect(result.current).toBe(6);
+			});
+		});
+	});
+
+	describe("lens stores", () => {
+		it("should return a stable derived array", async () => {
+			const todosStore = store([
+				{ id: 1, done: false },
+				{ id: 2, done: true },
+			]);
+			const openTodosStore = todosStore.lens({
+				get: (todos) => todos.filter((todo) => !todo.done),
+				set: (todos, open) => [...open, ...todos.filter((todo) => todo.done)],
+			});
+			const { result } = renderHook(() => useStoreValue(openTodosStore));
+
+			expect(result.current).toEqual([{ id: 1, done: false }]);
+
+			act(() => {
+				openTodosStore.set((open) => [...open, { id: 3, done: false }]);
+			});
+
+			await waitFor(() => {
+				expect(result.current).toHaveLength(2);
+			});
+		});
+	});
+
 	describe("multiple components", () => {
 		it("should allow multiple components to subscribe to same store", async () => {
 			const countStore = store(0);
@@ -757,3 +836,230 @@ describe("useStoreValue", () => {
 		});
 	});
 });
+
+describe("createStoreContext", () => {
+	it("should create a store per provider", async () => {
+		const { StoreProvider, useScopedStore } = createStoreContext(() =>
+			store(0),
+		);
+
+		function Counter({ testId }: { testId: string }) {
+			const countStore = useScopedStore();
+			const count = useStoreValue(countStore);
+			return (
+				<button
+					type="button"
+					data-testid={testId}
+					onClick={() => countStore.set((n) => n + 1)}
+				>
+					{count}
+				</button>
+			);
+		}
+
+		render(
+			<>
+				<StoreProvider>
+					<Counter testId="a" />
+				</StoreProvider>
+				<StoreProvider>
+					<Counter testId="b" />
+				</StoreProvider>
+			</>,
+		);
+
+		fireEvent.click(screen.getByTestId("a"));
+
+		await waitFor(() => {
+			expect(screen.getByTestId("a")).toHaveTextContent("1");
+		});
+		expect(screen.getByTestId("b")).toHaveTextContent("0");
+	});
+
+	it("should pass the initial prop to the factory", () => {
+		const { StoreProvider, useScopedStore } = createStoreContext(
+			(initial: { title: string }) => store(initial),
+		);
+
+		function Title() {
+			const title = useStoreValue(useScopedStore().select("title"));
+			return <div data-testid="title">{title}</div>;
+		}
+
+		render(
+			<StoreProvider initial={{ title: "Notes" }}>
+				<Title />
+			</StoreProvider>,
+		);
+
+		expect(screen.getByTestId("title")).toHaveTextContent("Notes");
+	});
+
+	it("should only create the store once", () => {
+		const factory = vi.fn(() => store(0));
+		const { StoreProvider } = createStoreContext(factory);
+
+		const { rerender } = render(<StoreProvider />);
+		rerender(<StoreProvider />);
+
+		expect(factory).toHaveBeenCalledTimes(1);
+	});
+
+	it("should resolve the nearest provider", () => {
+		const { StoreProvider, useScopedStore } = createStoreContext(
+			(initial: string) => store(initial),
+		);
+
+		function Label() {
+			const label = useStoreValue(useScopedStore());
+			return <span>{label}</span>;
+		}
+
+		render(
+			<StoreProvider initial="outer">
+				<Label />
+				<StoreProvider initial="inner">
+					<Label />
+				</StoreProvider>
+			</StoreProvider>,
+		);
+
+		expect(screen.getByText("outer")).toBeInTheDocument();
+		expect(screen.getByText("inner")).toBeInTheDocument();
+	});
+
+	it("should update selected stores from the scoped store", async () => {
+		const { StoreProvider, useScopedStore } = createStoreContext(
+			(initial: { title: string }) => store(initial),
+		);
+
+		function Title() {
+			const titleStore = useScopedStore().select("title");
+			const title = useStoreValue(titleStore);
+			return (
+				<input
+					data-testid="title"
+					value={title}
+					onChange={(e) => titleStore.set(e.target.value)}
+				/>
+			);
+		}
+
+		render(
+			<StoreProvider initial={{ title: "Notes" }}>
+				<Title />
+			</StoreProvider>,
+		);
+
+		fireEvent.change(screen.getByTestId("title"), {
+			target: { value: "Updated" },
+		});
+
+		await waitFor(() => {
+			expect(screen.getByTestId("title")).toHaveValue("Updated");
+		});
+	});
+
+	it("should throw outside of a provider", () => {
+		const { useScopedStore } = createStoreContext(() => store(0));
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		expect(() => renderHook(() => useScopedStore())).toThrow(
+			"useScopedStore() must be called inside its StoreProvider",
+		);
+	});
+});
+
+describe("useStoreSuspense", () => {
+	class ErrorBoundary extends Component<
+		{ children: ReactNode },
+		{ error?: Error }
+	> {
+		state: { error?: Error } = {};
+		static getDerivedStateFromError(error: Error) {
+			return { error };
+		}
+		render() {
+			if (this.state.error) return <div>error: {this.state.error.message}</div>;
+			return this.props.children;
+		}
+	}
+
+	it("should suspend until the data has loaded", async () => {
+		let resolve: (name: string) => void = () => {};
+		const userStore = asyncStore(
+			() =>
+				new Promise<string>((res) => {
+					resolve = res;
+				}),
+		);
+
+		function User() {
+			const name = useStoreSuspense(userStore);
+			return <div>user: {name}</div>;
+		}
+
+		render(
+			<Suspense fallback={<div>loading</div>}>
+				<User />
+			</Suspense>,
+		);
+
+		expect(screen.getByText("loading")).toBeInTheDocument();
+
+		await act(async () => {
+			resolve("Ada");
+		});
+
+		expect(await screen.findByText("user: Ada")).toBeInTheDocument();
+	});
+
+	it("should show stale data while refetching", async () => {
+		let name = "Ada";
+		const userStore = asyncStore(async () => name);
+		await userStore.load();
+
+		function User() {
+			const user = useStoreSuspense(userStore);
+			return <div>user: {user}</div>;
+		}
+
+		render(
+			<Suspense fallback={<div>loading</div>}>
+				<User />
+			</Suspense>,
+		);
+
+		expect(screen.getByText("user: Ada")).toBeInTheDocument();
+
+		name = "Grace";
+		act(() => {
+			userStore.refetch();
+		});
+		expect(screen.queryByText("loading")).not.toBeInTheDocument();
+
+		expect(await screen.findByText("user: Grace")).toBeInTheDocument();
+	});
+
+	it("should throw fetch errors to the nearest error boundary", async () => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		const userStore = asyncStore<string>(async () => {
+			throw new Error("Failed");
+		});
+
+		function User() {
+			const name = useStoreSuspense(userStore);
+			return <div>user: {name}</div>;
+		}
+
+		render(
+			<ErrorBoundary>
+				<Suspense fallback={<div>loading</div>}>
+					<User />
+				</Suspense>
+			</ErrorBoundary>,
+		);
+
+		expect(await screen.findByText("error: Failed")).toBeInTheDocument();
+	});
+});
@@ -1,6 +1,25 @@
 import { DEV } from "esm-env";
-import { useRef, useSyncExternalStore } from "react";
-import type { StateObject, StatePrimitive, Store } from "./index.js";
+import {
+	createContext,
+	createElement,
+	type ReactNode,
+	useContext,
+	useEffect,
+	useLayoutEffect,
+	useRef,
+	useState,
+	useSyncExternalStore,
+} from "react";
+import {
+	type AsyncStore,
+	getInitialWith,
+	hydrate,
+	type ReadonlyStore,
+	type StateObject,
+	type StatePrimitive,
+	type Store,
+} from "./index.js";
+import { deserialize } from "./serialize.js";
 import { shallow } from "./shallow.js";
 
 /**
@@ -17,18 +36,19 @@ import { shallow } from "./shallow.js";
  * const title = useStoreValue(docStore, (s) => s.title);
  */
 export function useStoreValue<T extends StateObject | StatePrimitive>(
-	store: Store<T>,
+	store: ReadonlyStore<T>,
 ): T;
 export function useStoreValue<T extends StateObject | StatePrimitive, U>(
-	store: Store<T>,
+	store: ReadonlyStore<T>,
 	selector: (state: T) => U,
 ): U;
 export function useStoreValue<T extends StateObject | StatePrimitive, U>(
-	store: Store<T>,
+	store: ReadonlyStore<T>,
 	selector?: (state: T) => U,
 ): T | U {
 	const prevValue = useRef<T | U | undefined>(undefined);
 	const unstableCount = useRef(0);
+	const serverStates = useContext(ServerStatesContext);
 
 	const getSnapshot = () => {
 		const state = store.get();
@@ -56,13 +76,37 @@ export function useStoreValue<T extends StateObject | StatePrimitive, U>(
 	};
 
 	const getServerSnapshot = () => {
-		const state = store.getInitial();
+		const state = serverStates
+			? getInitialWith(store, serverStates)
+			: store.getInitial();
 		return selector ? selector(state) : state;
 	};
 
 	return useSyncExternalStore(store.subscribe, getSnapshot, getServerSnapshot);
 }
 
+/**
+ * Read the data of an async store, suspending until it has loaded.
+ * Wrap the component in `<Suspense>` to show a fallback while loading,
+ * and in an error boundary to handle failed fetches.
+ * Refetches keep showing the previous data instead of suspending.
+ * @param store - The async store to read from.
+ * @returns The loaded data.
+ * @example
+ * const userStore = asyncStore((signal) => fetchUser(signal));
+ *
+ * function User() {
+ *   const user = useStoreSuspense(userStore);
+ *   return <p>{user.name}</p>;
+ * }
+ */
+export function useStoreSuspense<T>(store: AsyncStore<T>): T {
+	const state = useStoreValue(store);
+	if (state.status === "success") return state.data as T;
+	if (state.status === "error") throw state.error;
+	throw store.load();
+}
+
 /**
  * Wraps a selector with shallow equality memoization.
  * Use when your selector returns a new array/object reference that is shallowly equal.
@@ -83,3 +127,152 @@ export function useShallow<S, U>(selector: (state: S) => U): (state: S) => U {
 		return next;
 	};
 }
+
+export type StoreProviderProps<A> = {
+	children?: ReactNode;
+} & (undefined extends A ? { initial?: A } : { initial: A });
+
+export type StoreContext<T extends StateObject | StatePrimitive, A> = {
+	/**
+	 * Creates a store instance for the components inside it.
+	 * The store is created once, when the provider first renders.
+	 */
+	StoreProvider: (props: StoreProviderProps<A>) => ReactNode;
+	/**
+	 * Returns the store instance from the nearest `StoreProvider`.
+	 */
+	useScopedStore: () => Store<T>;
+};
+
+/**
+ * Creates a provider that instantiates a store per React tree, instead of sharing a module-level store.
+ * Use this to avoid sharing state between requests during server rendering.
+ *
+ * @param factory - Creates the store. Receives the provider's `initial` prop.
+ * @returns A `StoreProvider` component and a `useScopedStore()` hook to read the nearest store.
+ * @example
+ * const { StoreProvider, useScopedStore } = createStoreContext(
+ *   (initial: { title: string }) => store(initial),
+ * );
+ *
+ * function Title() {
+ *   const titleStore = useScopedStore().select("title");
+ *   const title = useStoreValue(titleStore);
+ *   return <input value={title} onChange={(e) => titleStore.set(e.target.value)} />;
+ * }
+ *
+ * function Page({ document }: { document: { title: string } }) {
+ *   return (
+ *     <StoreProvider initial={document}>
+ *       <Title />
+ *     </StoreProvider>
+ *   );
+ * }
+ */
+export function createStoreContext<
+	T extends StateObject | StatePrimitive,
+	A = undefined,
+>(factory: (initial: A) => Store<T>): StoreContext<T, A> {
+	const Context = createContext<Store<T> | null>(null);
+
+	function StoreProvider(props: StoreProviderProps<A>) {
+		const [instance] = useState(() => factory(props.initial as A));
+		return createElement(Context.Provider, { value: instance }, props.children);
+	}
+
+	function useScopedStore() {
+		const instance = useContext(Context);
+		if (!instance) {
+			throw new Error(
+				"[@simplestack/store] useScopedStore() must be called inside its StoreProvider.",
+			);
+		}
+		return instance;
+	}
+
+	return { StoreProvider, useScopedStore };
+}
+
+export type HydrateStoresProps<
+	T extends Record<string, StateObject | StatePrimitive> = Record<
+		string,
+		StateObject | StatePrimitive
+	>,
+> = {
+	/** The stores to hydrate, keyed by the same names passed to `dehydrate()`. */
+	stores: { [K in keyof T]: Store<T[K]> };
+	/** The snapshot returned by `dehydrate()`. */
+	snapshot: string;
+	children?: ReactNode;
+};
+
+// The snapshot states of hydrated stores, read as their server snapshot by `useStoreValue()`.
+const ServerStatesContext = createContext<ReadonlyMap<object, unknown> | null>(
+	null,
+);
+
+const subscribeNever = () => () => {};
+
+// Layout effects do not run on the server, and React 18 warns when they are used there.
+const useIsomorphicLayoutEffect =
+	typeof window === "undefined" ? useEffect : useLayoutEffect;
+
+/**
+ * Hydrates stores from a server snapshot before rendering its children.
+ * Render this on both the server and the client, above any component that reads the stores.
+ * On the server, components read the snapshot through context, so stores shared between requests are not changed.
+ * On the client, the stores are set to the snapshot, and set again whenever the snapshot changes.
+ *
+ * @example
+ * // On the server
+ * const snapshot = dehydrate({ user: userStore });
+ *
+ * // On the server and the client
+ * <HydrateStores stores={{ user: userStore }} snapshot={snapshot}>
+ *   <App />
+ * </HydrateStores>
+ */
+export function HydrateStores<
+	T extends Record<string, StateObject | StatePrimitive>,
+>({ stores, snapshot, children }: HydrateStoresProps<T>) {
+	const parentStates = useContext(ServerStatesContext);
+	const serverStates = useRef<{
+		snapshot: string;
+		parent: ReadonlyMap<object, unknown> | null;
+		states: ReadonlyMap<object, unknown>;
+	}>(undefined);
+	if (
+		serverStates.current?.snapshot !== snapshot ||
+		serverStates.current.parent !== parentStates
+	) {
+		const values = deserialize(snapshot) as Record<string, unknown>;
+		const states = new Map(parentStates);
+		for (const [key, store] of Object.entries(stores)) {
+			if (Object.hasOwn(values, key)) states.set(store, values[key]);
+		}
+		serverStates.current = { snapshot, parent: parentStates, states };
+	}
+
+	// True while rendering on the server, and while hydrating server markup.
+	const isServerRender = useSyncExternalStore(
+		subscribeNever,
+		() => false,
+		() => true,
+	);
+	const hydrated = useRef<string | undefined>(undefined);
+	const hydrateStores = () => {
+		if (hydrated.current === snapshot) return;
+		hydrate(stores, snapshot);
+		hydrated.current = snapshot;
+	};
+	// Client renders hydrate during render, so children read the snapshot on their first render.
+	if (!isServerRender) hydrateStores();
+	// After hydrating server markup, the stores are set before children check for changes in their effects.
+	useIsomorphicLayoutEffect(hydrateStores);
+
+	return createElement(
+		ServerStatesContext.Provider,
+		{ value: serverStates.current.states },
+		children,
+	);
+}
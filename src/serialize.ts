@@ -0,0 +1,75 @@
+/**
+ * JSON serialization that preserves Dates, Maps, Sets, and undefined.
+ * Output is safe to embed in an HTML `<script>` tag.
+ */
+
+type Encoded =
+	| { $type: "undefined" }
+	| { $type: "Date"; value: string | null }
+	| { $type: "Map"; value: [unknown, unknown][] }
+	| { $type: "Set"; value: unknown[] }
+	// Plain objects with their own `$type` key are escaped to avoid being decoded as a tag.
+	| { $type: "Object"; value: [string, unknown][] };
+
+export function serialize(value: unknown): string {
+	return JSON.stringify(encode(value)).replace(/</g, "\\u003c");
+}
+
+export function deserialize(text: string): unknown {
+	return decode(JSON.parse(text));
+}
+
+function encode(value: unknown): unknown {
+	if (value === undefined) return { $type: "undefined" } satisfies Encoded;
+	if (value instanceof Date) {
+		return {
+			$type: "Date",
+			value: Number.isNaN(value.getTime()) ? null : value.toISOString(),
+		} satisfies Encoded;
+	}
+	if (value instanceof Map) {
+		return {
+			$type: "Map",
+			value: [...value].map(([key, entry]) => [encode(key), encode(entry)]),
+		} satisfies Encoded;
+	}
+	if (value instanceof Set) {
+		return { $type: "Set", value: [...value].map(encode) } satisfies Encoded;
+	}
+	if (Array.isArray(value)) return value.map(encode);
+	if (typeof value === "object" && value !== null) {
+		const entries = Object.entries(value).map(
+			([key, entry]): [string, unknown] => [key, encode(entry)],
+		);
+		return Object.hasOwn(value, "$type")
+			? ({ $type: "Object", value: entries } satisfies Encoded)
+			: Object.fromEntries(entries);
+	}
+	return value;
+}
+
+function decode(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(decode);
+	if (typeof value !== "object" || value === null) return value;
+
+	const encoded = value as Encoded;
+	switch (encoded.$type) {
+		case "undefined":
+			return undefined;
+		case "Date":
+			return new Date(encoded.value ?? Number.NaN);
+		case "Map":
+			return new Map(
+				encoded.value.map(([key, entry]) => [decode(key), decode(entry)]),
+			);
+		case "Set":
+			return new Set(encoded.value.map(decode));
+		case "Object":
+			return Object.fromEntries(
+				encoded.value.map(([key, entry]) => [key, decode(entry)]),
+			);
+	}
+	return Object.fromEntries(
+		Object.entries(value).map(([key, entry]) => [key, decode(entry)]),
+	);
+}
@@ -0,0 +1,112 @@
+import { createEffect, createRoot } from "solid-js";
+import { computed, store } from "./index.js";
+import { createStoreValue } from "./solid.js";
+import { nextTick } from "./test-utils.js";
+
+describe("createStoreValue", () => {
+	it("should return the current value of the store", () => {
+		createRoot((dispose) => {
+			const count = createStoreValue(store(5));
+			expect(count()).toBe(5);
+			dispose();
+		});
+	});
+
+	it("should be tracked by Solid effects", async () => {
+		const countStore = store(0);
+		const seen: number[] = [];
+
+		const dispose = createRoot((dispose) => {
+			const count = createStoreValue(countStore);
+			createEffect(() => seen.push(count()));
+			return dispose;
+		});
+
+		countStore.set(1);
+		await nextTick();
+		countStore.set(2);
+		await nextTick();
+
+		expect(seen).toEqual([0, 1, 2]);
+		dispose();
+	});
+
+	it("should support selected stores, selectors and computed stores", async () => {
+		const documentStore = store({ title: "Untitled", tags: ["draft"] });
+
+		const dispose = createRoot((dispose) => {
+			const title = createStoreValue(documentStore.select("title"));
+			const tagCount = createStoreValue(documentStore, (s) => s.tags.length);
+			const upper = createStoreValue(
+				computed(documentStore.select("title"), (t) => t.toUpperCase()),
+			);
+
+			documentStore.set({ title: "Notes", tags: ["draft", "final"] });
+			return () => {
+				expect([title(), tagCount(), upper()]).toEqual(["Notes", 2, "NOTES"]);
+				dispose();
+			};
+		});
+
+		await nextTick();
+		dispose();
+	});
+
+	it("should read the latest state and re-run effects synchronously", () => {
+		const countStore = store(0);
+		const seen: number[] = [];
+
+		let count: () => number = () => -1;
+
+		const dispose = createRoot((dispose) => {
+			count = createStoreValue(countStore);
+			createEffect(() => seen.push(count()));
+			return dispose;
+		});
+
+		countStore.set(1);
+		expect(count()).toBe(1);
+		countStore.set(2);
+
+		expect(seen).toEqual([0, 1, 2]);
+		dispose();
+	});
+
+	it("should only re-run effects when the selected value changes", () => {
+		const documentStore = store({ title: "Untitled", tags: ["draft"] });
+		const seen: string[] = [];
+
+		const dispose = createRoot((dispose) => {
+			const title = createStoreValue(documentStore, (s) => s.title);
+			createEffect(() => seen.push(title()));
+			return dispose;
+		});
+
+		documentStore.select("tags").set(["final"]);
+		documentStore.select("title").set("Notes");
+
+		expect(seen).toEqual(["Untitled", "Notes"]);
+		dispose();
+	});
+
+	it("should unsubscribe when the owner is disposed", () => {
+		const countStore = store(0);
+		const unsubscribe = vi.fn();
+		vi.spyOn(countStore, "subscribe").mockReturnValue(unsubscribe);
+
+		createRoot((dispose) => {
+			createStoreValue(countStore);
+			dispose();
+		});
+
+		expect(unsubscribe).toHaveBeenCalledTimes(1);
+	});
+
+	it("should warn when called outside of an owner", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		createStoreValue(store(0));
+
+		expect(warn).toHaveBeenCalled();
+	});
+});
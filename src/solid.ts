@@ -0,0 +1,53 @@
+import { DEV } from "esm-env";
+import { type Accessor, createSignal, getOwner, onCleanup } from "solid-js";
+import type { ReadonlyStore, StateObject, StatePrimitive } from "./index.js";
+
+/**
+ * Read the state of the store as a Solid accessor, optionally selecting a derived value.
+ * The accessor always reads the latest state, and reading it tracks it like any Solid signal.
+ * The subscription is removed when the current owner (component, root, or effect) is cleaned up.
+ * @param store - The store to read. Selected and computed stores are supported.
+ * @param selector - Optional function to select/derive a value from the store state.
+ * @returns An accessor for the current state, or the selected value if a selector is provided.
+ * @example
+ * const documentStore = store({ title: "Untitled" });
+ *
+ * function Title() {
+ *   const title = createStoreValue(documentStore.select("title"));
+ *   return <h1>{title()}</h1>;
+ * }
+ */
+export function createStoreValue<T extends StateObject | StatePrimitive>(
+	store: ReadonlyStore<T>,
+): Accessor<T>;
+export function createStoreValue<T extends StateObject | StatePrimitive, U>(
+	store: ReadonlyStore<T>,
+	selector: (state: T) => U,
+): Accessor<U>;
+export function createStoreValue<T extends StateObject | StatePrimitive, U>(
+	store: ReadonlyStore<T>,
+	selector?: (state: T) => U,
+): Accessor<T | U> {
+	const read = (state: T) => (selector ? selector(state) : state);
+	// Solid tracks reads of `track`, and the subscription re-runs them when the store changes.
+	const [track, trigger] = createSignal(undefined, { equals: false });
+	const unsubscribe = store.subscribe(() => trigger(), {
+		selector: read,
+		fireImmediately: false,
+		sync: true,
+	});
+
+	if (getOwner()) {
+		onCleanup(unsubscribe);
+	} else if (DEV) {
+		console.warn(
+			"[@simplestack/store] createStoreValue() was called outside of a component, root, or effect. " +
+				"The subscription will never be removed.",
+		);
+	}
+
+	return () => {
+		track();
+		return read(store.get());
+	};
+}
@@ -1,9 +1,9 @@
-import { act, screen } from "@testing-library/react";
+import { act, render, screen } from "@testing-library/react";
 import React, { useEffect } from "react";
 import { renderToString } from "react-dom/server";
 import { describe, expect, it, vi } from "vitest";
-import { store } from "./index";
-import { useStoreValue } from "./react";
+import { dehydrate, store } from "./index";
+import { createStoreContext, HydrateStores, useStoreValue } from "./react";
 
 describe("SSR Behavior", () => {
 	it("should handle different states between server and client correctly", async () => {
@@ -442,4 +442,129 @@ describe("SSR Behavior", () => {
 
 		document.body.removeChild(container);
 	});
+
+	it("should not share scoped stores between server renders", () => {
+		const { StoreProvider, useScopedStore } = createStoreContext(
+			(initial: { user: string }) => store(initial),
+		);
+
+		function Greeting() {
+			const user = useStoreValue(useScopedStore().select("user"));
+			return <div>hello {user}</div>;
+		}
+
+		const first = renderToString(
+			<StoreProvider initial={{ user: "ada" }}>
+				<Greeting />
+			</StoreProvider>,
+		);
+		const second = renderToString(
+			<StoreProvider initial={{ user: "grace" }}>
+				<Greeting />
+			</StoreProvider>,
+		);
+
+		expect(first).toContain("hello <!-- -->ada");
+		expect(second).toContain("hello <!-- -->grace");
+	});
+
+	it("should render and hydrate from a server snapshot without mismatches", async () => {
+		const { hydrateRoot } =
+			await vi.importActual<typeof import("react-dom/client")>(
+				"react-dom/client",
+			);
+
+		// Server and client load separate copies of the module-level store.
+		const serverUserStore = store({ name: "", joined: new Date(0) });
+		const clientUserStore = store({ name: "", joined: new Date(0) });
+
+		function User({ userStore }: { userStore: typeof serverUserStore }) {
+			const user = useStoreValue(userStore);
+			return (
+				<div>
+					user: {user.name} {user.joined.getUTCFullYear()}
+				</div>
+			);
+		}
+
+		const serverData = store({
+			name: "Ada",
+			joined: new Date("2024-06-01T00:00:00.000Z"),
+		});
+		const snapshot = dehydrate({ user: serverData });
+
+		const markup = renderToString(
+			<HydrateStores stores={{ user: serverUserStore }} snapshot={snapshot}>
+				<User userStore={serverUserStore} />
+			</HydrateStores>,
+		);
+
+		const container = document.createElement("div");
+		document.body.appendChild(container);
+		container.innerHTML = markup;
+
+		expect(container).toHaveTextContent(/user: Ada 2024/);
+
+		const consoleMock = vi.spyOn(console, "error");
+
+		await act(async () => {
+			hydrateRoot(
+				container,
+				<HydrateStores stores={{ user: clientUserStore }} snapshot={snapshot}>
+					<User userStore={clientUserStore} />
+				</HydrateStores>,
+			);
+		});
+
+		expect(consoleMock).toHaveBeenCalledTimes(0);
+		expect(container).toHaveTextContent(/user: Ada 2024/);
+		expect(clientUserStore.get().name).toBe("Ada");
+		document.body.removeChild(container);
+	});
+
+	it("should not share hydrated state between server renders", () => {
+		const userStore = store({ name: "" });
+		const nameStore = userStore.select("name");
+
+		function Name() {
+			const name = useStoreValue(nameStore);
+			return <div>name: {name}</div>;
+		}
+
+		const render = (name: string) =>
+			renderToString(
+				<HydrateStores
+					stores={{ user: userStore }}
+					snapshot={dehydrate({ user: store({ name }) })}
+				>
+					<Name />
+				</HydrateStores>,
+			);
+
+		expect(render("Ada")).toContain("name: <!-- -->Ada");
+		expect(render("Grace")).toContain("name: <!-- -->Grace");
+		expect(userStore.get()).toEqual({ name: "" });
+		expect(userStore.getInitial()).toEqual({ name: "" });
+	});
+
+	it("should hydrate stores when rendering on the client", () => {
+		const userStore = store({ name: "" });
+
+		function Name() {
+			const user = useStoreValue(userStore);
+			return <div>name: {user.name}</div>;
+		}
+
+		render(
+			<HydrateStores
+				stores={{ user: userStore }}
+				snapshot={dehydrate({ user: store({ name: "Ada" }) })}
+			>
+				<Name />
+			</HydrateStores>,
+		);
+
+		expect(screen.getByText("name: Ada")).toBeInTheDocument();
+		expect(userStore.get()).toEqual({ name: "Ada" });
+	});
 });
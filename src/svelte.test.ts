@@ -0,0 +1,139 @@
+import { derived, get } from "svelte/store";
+import { computed, store } from "./index.js";
+import { storeRune, toSvelteStore } from "./svelte.js";
+import { nextTick } from "./test-utils.js";
+
+// The server build of `createSubscriber` is a no-op, so track subscriptions manually.
+const subscriptions = vi.hoisted(() => ({
+	start: [] as Array<(update: () => void) => () => void>,
+}));
+vi.mock("svelte/reactivity", () => ({
+	createSubscriber: (start: (update: () => void) => () => void) => {
+		subscriptions.start.push(start);
+		return () => {};
+	},
+}));
+
+describe("svelte", () => {
+	describe("toSvelteStore", () => {
+		it("should call subscribers immediately with the current value", () => {
+			const countStore = toSvelteStore(store(3));
+			const run = vi.fn();
+
+			countStore.subscribe(run);
+
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(run).toHaveBeenCalledWith(3);
+		});
+
+		it("should call subscribers immediately for undefined stores", () => {
+			const noteStore = toSvelteStore(store<string | undefined>(undefined));
+			const run = vi.fn();
+
+			noteStore.subscribe(run);
+
+			expect(run).toHaveBeenCalledWith(undefined);
+		});
+
+		it("should call subscribers on change", async () => {
+			const countStore = store(0);
+			const run = vi.fn();
+
+			toSvelteStore(countStore).subscribe(run);
+			run.mockClear();
+			countStore.set(1);
+			await nextTick();
+
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(run).toHaveBeenCalledWith(1);
+		});
+
+		it("should call subscribers before set() returns", () => {
+			const countStore = store(0);
+			const run = vi.fn();
+
+			toSvelteStore(countStore).subscribe(run);
+			countStore.set(1);
+
+			expect(run).toHaveBeenLastCalledWith(1);
+		});
+
+		it("should unsubscribe", async () => {
+			const countStore = store(0);
+			const run = vi.fn();
+
+			const unsubscribe = toSvelteStore(countStore).subscribe(run);
+			unsubscribe();
+			countStore.set(1);
+			await nextTick();
+
+			expect(run).toHaveBeenCalledTimes(1);
+		});
+
+		it("should set and update writable stores", () => {
+			const documentStore = store({ title: "Untitled", views: 0 });
+			const title = toSvelteStore(documentStore.select("title"));
+			const views = toSvelteStore(documentStore.select("views"));
+
+			title.set("Notes");
+			views.update((count) => count + 1);
+
+			expect(documentStore.get()).toEqual({ title: "Notes", views: 1 });
+		});
+
+		it("should adapt computed stores as readable stores", () => {
+			const countStore = store(2);
+			const doubled = toSvelteStore(computed(countStore, (count) => count * 2));
+
+			expect("set" in doubled).toBe(false);
+			expect(get(doubled)).toBe(4);
+		});
+
+		it("should work with svelte/store helpers", async () => {
+			const countStore = store(1);
+			const doubled = derived(toSvelteStore(countStore), (count) => count * 2);
+			const run = vi.fn();
+
+			doubled.subscribe(run);
+			countStore.set(2);
+			await nextTick();
+
+			expect(run).toHaveBeenLastCalledWith(4);
+		});
+	});
+
+	describe("storeRune", () => {
+		beforeEach(() => {
+			subscriptions.start.length = 0;
+		});
+
+		it("should read and set the current value", () => {
+			const documentStore = store({ title: "Untitled" });
+			const title = storeRune(documentStore.select("title"));
+
+			expect(title.current).toBe("Untitled");
+
+			title.current = "Notes";
+			expect(documentStore.get().title).toBe("Notes");
+			expect(title.current).toBe("Notes");
+		});
+
+		it("should notify Svelte on change only", async () => {
+			const countStore = store(0);
+			const update = vi.fn();
+			storeRune(countStore);
+
+			const unsubscribe = subscriptions.start[0](update);
+			expect(update).not.toHaveBeenCalled();
+
+			countStore.set(1);
+			await nextTick();
+			expect(update).toHaveBeenCalledTimes(1);
+
+			unsubscribe();
+			countStore.set(2);
+			await nextTick();
+			expect(update).toHaveBeenCalledTimes(1);
+		});
+	});
+});
@@ -0,0 +1,109 @@
+import { createSubscriber } from "svelte/reactivity";
+import type {
+	ReadonlyStore,
+	Setter,
+	StateObject,
+	StatePrimitive,
+	Store,
+} from "./index.js";
+
+/**
+ * A store that follows the Svelte store contract.
+ * @see https://svelte.dev/docs/svelte/stores#Store-contract
+ */
+export type SvelteReadable<T> = {
+	subscribe: (run: (value: T) => void) => () => void;
+};
+
+export type SvelteWritable<T> = SvelteReadable<T> & {
+	set: (value: T) => void;
+	update: (updater: (value: T) => T) => void;
+};
+
+/**
+ * Adapts a store to the Svelte store contract, so it can be used with the `$store` syntax.
+ * Subscribers are called immediately with the current value, and again synchronously on every change.
+ * @param store - The store to adapt. Selected and computed stores are supported.
+ * @returns A Svelte store. Writable when a writable store is passed.
+ * @example
+ * <script>
+ *   import { toSvelteStore } from "@simplestack/store/svelte";
+ *   import { documentStore } from "./stores";
+ *
+ *   const title = toSvelteStore(documentStore.select("title"));
+ * </script>
+ *
+ * <input bind:value={$title} />
+ */
+export function toSvelteStore<T extends StateObject | StatePrimitive>(
+	store: Store<T>,
+): SvelteWritable<T>;
+export function toSvelteStore<T extends StateObject | StatePrimitive>(
+	store: ReadonlyStore<T>,
+): SvelteReadable<T>;
+export function toSvelteStore<T extends StateObject | StatePrimitive>(
+	store: Store<T> | ReadonlyStore<T>,
+): SvelteReadable<T> | SvelteWritable<T> {
+	const subscribe = (run: (value: T) => void) => {
+		run(store.get());
+		return subscribeToChanges(store, run);
+	};
+	if (!isWritable(store)) return { subscribe };
+	return {
+		subscribe,
+		set: (value) => store.set(value),
+		update: (updater) => store.set(updater as Setter<T>),
+	};
+}
+
+/**
+ * Reads a store from Svelte 5 runes.
+ * Reading `current` in a component or `$effect` re-runs it when the store changes.
+ * @param store - The store to read. Selected and computed stores are supported.
+ * @returns An object with a `current` property. Assigning to `current` sets writable stores.
+ * @example
+ * <script>
+ *   import { storeRune } from "@simplestack/store/svelte";
+ *   import { countStore } from "./stores";
+ *
+ *   const count = storeRune(countStore);
+ * </script>
+ *
+ * <button onclick={() => count.current++}>{count.current}</button>
+ */
+export function storeRune<T extends StateObject | StatePrimitive>(
+	store: Store<T>,
+): { current: T };
+export function storeRune<T extends StateObject | StatePrimitive>(
+	store: ReadonlyStore<T>,
+): { readonly current: T };
+export function storeRune<T extends StateObject | StatePrimitive>(
+	store: Store<T> | ReadonlyStore<T>,
+): { current: T } {
+	const track = createSubscriber((update) => subscribeToChanges(store, update));
+	return {
+		get current() {
+			track();
+			return store.get();
+		},
+		set current(value) {
+			if (isWritable(store)) store.set(value);
+		},
+	};
+}
+
+function subscribeToChanges<T extends StateObject | StatePrimitive>(
+	store: ReadonlyStore<T>,
+	callback: (value: T) => void,
+) {
+	return store.subscribe((value) => callback(value), {
+		fireImmediately: false,
+		sync: true,
+	});
+}
+
+function isWritable<T extends StateObject | StatePrimitive>(
+	store: Store<T> | ReadonlyStore<T>,
+): store is Store<T> {
+	return typeof (store as Partial<Store<T>>).set === "function";
+}
@@ -0,0 +1,203 @@
+import {
+	type SyncChannel,
+	type SyncMessage,
+	store,
+	syncMiddleware,
+} from "./index.js";
+
+// In-memory stand-in for BroadcastChannel: delivers to every other channel with the same name.
+const createChannelHub = () => {
+	const listeners = new Map<string, Set<(message: SyncMessage) => void>>();
+	const sent: SyncMessage[] = [];
+	const channel = (name: string): SyncChannel => {
+		const own = new Set<(message: SyncMessage) => void>();
+		const peers = listeners.get(name) ?? new Set();
+		listeners.set(name, peers);
+		return {
+			postMessage: (message) => {
+				sent.push(message);
+				for (const listener of peers) {
+					if (!own.has(listener)) listener(message);
+				}
+			},
+			subscribe: (listener) => {
+				own.add(listener);
+				peers.add(listener);
+				return () => {
+					own.delete(listener);
+					peers.delete(listener);
+				};
+			},
+		};
+	};
+	return { channel, sent };
+};
+
+describe("syncMiddleware", () => {
+	it("mirrors updates to other stores on the same channel", () => {
+		const { channel } = createChannelHub();
+		const tabA = store(0, {
+			middleware: [syncMiddleware({ name: "count", channel })],
+		});
+		const tabB = store(0, {
+			middleware: [syncMiddleware({ name: "count", channel })],
+		});
+
+		tabA.set(3);
+		expect(tabB.get()).toBe(3);
+
+		tabB.set((count) => count + 1);
+		expect(tabA.get()).toBe(4);
+	});
+
+	it("does not mirror updates to other channel names", () => {
+		const { channel } = createChannelHub();
+		const cartStore = store(0, {
+			middleware: [syncMiddleware({ name: "cart", channel })],
+		});
+		const authStore = store(0, {
+			middleware: [syncMiddleware({ name: "auth", channel })],
+		});
+
+		cartStore.set(3);
+
+		expect(authStore.get()).toBe(0);
+	});
+
+	it("does not re-broadcast inbound updates", () => {
+		const { channel, sent } = createChannelHub();
+		const tabA = store(0, {
+			middleware: [syncMiddleware({ name: "count", channel })],
+		});
+		store(0, { middleware: [syncMiddleware({ name: "count", channel })] });
+
+		tabA.set(3);
+
+		expect(sent).toHaveLength(1);
+	});
+
+	it("ignores its own messages", () => {
+		let listener: ((message: SyncMessage) => void) | undefined;
+		const channel = (): SyncChannel => ({
+			postMessage: (message) => listener?.({ ...message, state: 99 }),
+			subscribe: (handler) => {
+				listener = handler;
+				return () => {};
+			},
+		});
+		const countStore = store(0, {
+			middleware: [syncMiddleware({ name: "count", channel })],
+		});
+
+		countStore.set(3);
+
+		expect(countStore.get()).toBe(3);
+	});
+
+	it("does not broadcast sets that leave the state unchanged", () => {
+		const { channel, sent } = createChannelHub();
+		const countStore = store(0, {
+			middleware: [syncMiddleware({ name: "count", channel })],
+		});
+
+		countStore.set(0);
+
+		expect(sent).toHaveLength(0);
+	});
+
+	it("ignores updates older than the latest local update", () => {
+		let listener: ((message: SyncMessage) => void) | undefined;
+		const channel = (): SyncChannel => ({
+			postMessage: () => {},
+			subscribe: (handler) => {
+				listener = handler;
+				return () => {};
+			},
+		});
+		const now = Date.now();
+		vi.spyOn(Date, "now").mockReturnValue(now);
+		const countStore = store(0, {
+			middleware: [syncMiddleware({ name: "count", channel })],
+		});
+
+		countStore.set(3);
+		listener?.({ source: "other", timestamp: now - 1, state: 1 });
+		expect(countStore.get()).toBe(3);
+
+		listener?.({ source: "other", timestamp: now + 1, state: 5 });
+		expect(countStore.get()).toBe(5);
+
+		listener?.({ source: "another", timestamp: now, state: 7 });
+		expect(countStore.get()).toBe(5);
+	});
+
+	it("orders local updates after the update they follow", () => {
+		let listener: ((message: SyncMessage) => void) | undefined;
+		const sent: SyncMessage[] = [];
+		const channel = (): SyncChannel => ({
+			postMessage: (message) => sent.push(message),
+			subscribe: (handler) => {
+				listener = handler;
+				return () => {};
+			},
+		});
+		const now = Date.now();
+		vi.spyOn(Date, "now").mockReturnValue(now);
+		const countStore = store(0, {
+			middleware: [syncMiddleware({ name: "count", channel })],
+		});
+
+		listener?.({ source: "\uffff", timestamp: now, state: 1 });
+		countStore.set(2);
+
+		expect(sent).toEqual([
+			expect.objectContaining({ timestamp: now + 1, state: 2 }),
+		]);
+	});
+
+	it("syncs updates from selected stores", () => {
+		const { channel } = createChannelHub();
+		const tabA = store(
+			{ items: ["apple"], open: false },
+			{ middleware: [syncMiddleware({ name: "cart", channel })] },
+		);
+		const tabB = store(
+			{ items: ["apple"], open: false },
+			{ middleware: [syncMiddleware({ name: "cart", channel })] },
+		);
+
+		tabA.select("items").set((items) => [...items, "pear"]);
+
+		expect(tabB.get()).toEqual({ items: ["apple", "pear"], open: false });
+	});
+
+	it("stops syncing after destroy", () => {
+		const { channel } = createChannelHub();
+		const tabA = store(0, {
+			middleware: [syncMiddleware({ name: "count", channel })],
+		});
+		const tabB = store(0, {
+			middleware: [syncMiddleware({ name: "count", channel })],
+		});
+
+		tabB.destroy();
+		tabA.set(3);
+
+		expect(tabB.get()).toBe(0);
+	});
+
+	it("syncs through BroadcastChannel by default", async () => {
+		const tabA = store(0, {
+			middleware: [syncMiddleware({ name: "broadcast-count" })],
+		});
+		const tabB = store(0, {
+			middleware: [syncMiddleware({ name: "broadcast-count" })],
+		});
+
+		tabA.set(3);
+
+		await vi.waitFor(() => expect(tabB.get()).toBe(3));
+		tabA.destroy();
+		tabB.destroy();
+	});
+});
@@ -0,0 +1,159 @@
+import { DEV } from "esm-env";
+import type { StateObject, StatePrimitive, StoreMiddleware } from "./index.js";
+
+/**
+ * A message sent between tabs by {@link syncMiddleware}.
+ */
+export type SyncMessage = {
+	/** Unique id of the sending store, used to ignore echoes. */
+	source: string;
+	/** When the update was made, used to resolve conflicts. */
+	timestamp: number;
+	state: unknown;
+};
+
+/**
+ * Transport used by {@link syncMiddleware} to talk to other tabs.
+ * Messages posted to a channel should be delivered to every other channel with the same name.
+ */
+export type SyncChannel = {
+	postMessage: (message: SyncMessage) => void;
+	subscribe: (listener: (message: SyncMessage) => void) => () => void;
+	close?: () => void;
+};
+
+export type SyncOptions = {
+	/** Name of the channel shared by every tab. */
+	name: string;
+	/**
+	 * Create the channel for the given name.
+	 * Defaults to a `BroadcastChannel`, falling back to `storage` events on `localStorage`.
+	 * Sync is skipped when neither is available, like during SSR.
+	 */
+	channel?: (name: string) => SyncChannel | undefined;
+};
+
+/**
+ * Mirrors store updates to other tabs and windows of the same origin.
+ * Updates received from other tabs are applied without being sent back.
+ * When updates conflict, the most recent update wins.
+ * Use this in the `middleware` array when creating a store.
+ *
+ * @example
+ * const cartStore = store(
+ *   { items: [] as string[] },
+ *   { middleware: [syncMiddleware({ name: "cart" })] },
+ * );
+ */
+export const syncMiddleware =
+	<T extends StateObject | StatePrimitive>(
+		options: SyncOptions,
+	): StoreMiddleware<T> =>
+	(store) => {
+		const channel = (options.channel ?? createDefaultChannel)(options.name);
+		if (!channel) return {};
+
+		const source: string = createSourceId();
+		let lastUpdate = { timestamp: 0, source };
+		let applying = false;
+
+		// Last writer wins. Ties are broken by source id so every tab agrees on the winner.
+		const isOutdated = (message: SyncMessage) =>
+			message.timestamp < lastUpdate.timestamp ||
+			(message.timestamp === lastUpdate.timestamp &&
+				message.source < lastUpdate.source);
+
+		const receive = (message: SyncMessage) => {
+			if (message.source === source || isOutdated(message)) return;
+			lastUpdate = { timestamp: message.timestamp, source: message.source };
+			applying = true;
+			try {
+				store.set(message.state as T);
+			} finally {
+				applying = false;
+			}
+		};
+
+		return {
+			init: () => {
+				const unsubscribe = channel.subscribe(receive);
+				return () => {
+					unsubscribe();
+					channel.close?.();
+				};
+			},
+			set: (next) => (setter) => {
+				const prev = store.get();
+				next(setter);
+				const state = store.get();
+				if (applying || Object.is(prev, state)) return;
+
+				// Local updates must win over the update they were made after,
+				// even within the same millisecond.
+				const timestamp = Math.max(Date.now(), lastUpdate.timestamp + 1);
+				lastUpdate = { timestamp, source };
+				try {
+					channel.postMessage({ ...lastUpdate, state });
+				} catch (error) {
+					if (DEV) {
+						console.warn(
+							`[@simplestack/store] Failed to sync state on channel "${options.name}":`,
+							error,
+						);
+					}
+				}
+			},
+		};
+	};
+
+function createDefaultChannel(name: string): SyncChannel | undefined {
+	if (typeof BroadcastChannel !== "undefined") {
+		return createBroadcastChannel(name);
+	}
+	if (typeof window !== "undefined" && typeof localStorage !== "undefined") {
+		return createStorageChannel(name);
+	}
+	return undefined;
+}
+
+function createBroadcastChannel(name: string): SyncChannel {
+	const channel = new BroadcastChannel(name);
+	return {
+		postMessage: (message) => channel.postMessage(message),
+		subscribe: (listener) => {
+			const handler = (event: MessageEvent<SyncMessage>) =>
+				listener(event.data);
+			channel.addEventListener("message", handler);
+			return () => channel.removeEventListener("message", handler);
+		},
+		close: () => channel.close(),
+	};
+}
+
+function createStorageChannel(name: string): SyncChannel {
+	// `storage` events only fire in other tabs, so writing the latest message
+	// to a dedicated key acts as a broadcast.
+	const key = `@simplestack/store:sync:${name}`;
+	return {
+		postMessage: (message) =>
+			localStorage.setItem(key, JSON.stringify(message)),
+		subscribe: (listener) => {
+			const handler = (event: StorageEvent) => {
+				if (event.key !== key || event.newValue == null) return;
+				try {
+					listener(JSON.parse(event.newValue));
+				} catch {
+					// Ignore values that were not written by this middleware.
+				}
+			};
+			window.addEventListener("storage", handler);
+			return () => window.removeEventListener("storage", handler);
+		},
+	};
+}
+
+function createSourceId() {
+	return (
+		globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2)
+	);
+}
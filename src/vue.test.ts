@@ -0,0 +1,147 @@
+import { createApp, defineComponent, effectScope, h, nextTick } from "vue";
+import { computed, store } from "./index.js";
+import { useStoreModel, useStoreValue } from "./vue.js";
+
+const mount = (setup: () => () => ReturnType<typeof h>) => {
+	const container = document.createElement("div");
+	const app = createApp(defineComponent({ setup }));
+	app.mount(container);
+	return { container, unmount: () => app.unmount() };
+};
+
+describe("vue", () => {
+	describe("useStoreValue", () => {
+		it("should return the current value of the store", () => {
+			const countStore = store(5);
+			const scope = effectScope();
+			const count = scope.run(() => useStoreValue(countStore));
+
+			expect(count?.value).toBe(5);
+			scope.stop();
+		});
+
+		it("should update when the store changes", async () => {
+			const countStore = store(0);
+			const { container, unmount } = mount(() => {
+				const count = useStoreValue(countStore);
+				return () => h("div", `count: ${count.value}`);
+			});
+
+			countStore.set(3);
+			await vi.waitFor(() => {
+				expect(container.textContent).toBe("count: 3");
+			});
+			unmount();
+		});
+
+		it("should support selected stores", async () => {
+			const documentStore = store({ meta: { tags: ["draft"] } });
+			const scope = effectScope();
+			const tags = scope.run(() =>
+				useStoreValue(documentStore.select("meta", "tags")),
+			);
+
+			documentStore.select("meta", "tags").set(["final"]);
+			await vi.waitFor(() => {
+				expect(tags?.value).toEqual(["final"]);
+			});
+			scope.stop();
+		});
+
+		it("should support selectors and computed stores", async () => {
+			const countStore = store(2);
+			const doubledStore = computed(countStore, (count) => count * 2);
+			const scope = effectScope();
+			const [isEven, doubled] =
+				scope.run(() => [
+					useStoreValue(countStore, (count) => count % 2 === 0),
+					useStoreValue(doubledStore),
+				]) ?? [];
+
+			countStore.set(3);
+			await vi.waitFor(() => {
+				expect(isEven?.value).toBe(false);
+				expect(doubled?.value).toBe(6);
+			});
+			scope.stop();
+		});
+
+		it("should unsubscribe when the scope is disposed", async () => {
+			const countStore = store(0);
+			const scope = effectScope();
+			const count = scope.run(() => useStoreValue(countStore));
+
+			scope.stop();
+			countStore.set(1);
+			await nextTick();
+
+			expect(count?.value).toBe(0);
+		});
+
+		it("should unsubscribe when the component unmounts", async () => {
+			const countStore = store(0);
+			const renders = vi.fn();
+			const { unmount } = mount(() => {
+				const count = useStoreValue(countStore);
+				return () => {
+					renders(count.value);
+					return h("div", count.value);
+				};
+			});
+
+			unmount();
+			countStore.set(1);
+			await new Promise((resolve) => setTimeout(resolve));
+
+			expect(renders).toHaveBeenCalledTimes(1);
+		});
+
+		it("should warn when called outside of a scope", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			useStoreValue(store(0));
+
+			expect(warn).toHaveBeenCalled();
+		});
+	});
+
+	describe("useStoreModel", () => {
+		it("should set the store when assigned", () => {
+			const documentStore = store({ title: "Untitled" });
+			const scope = effectScope();
+			const title = scope.run(() =>
+				useStoreModel(documentStore.select("title")),
+			);
+
+			if (title) title.value = "Notes";
+
+			expect(documentStore.get()).toEqual({ title: "Notes" });
+			scope.stop();
+		});
+
+		it("should bind an input to the store", async () => {
+			const documentStore = store({ title: "Untitled" });
+			const { container, unmount } = mount(() => {
+				const title = useStoreModel(documentStore.select("title"));
+				return () =>
+					h("input", {
+						value: title.value,
+						onInput: (event: Event) => {
+							title.value = (event.target as HTMLInputElement).value;
+						},
+					});
+			});
+			const input = container.querySelector("input") as HTMLInputElement;
+
+			input.value = "Notes";
+			input.dispatchEvent(new Event("input"));
+			expect(documentStore.get().title).toBe("Notes");
+
+			documentStore.select("title").set("Updated");
+			await vi.waitFor(() => {
+				expect(input.value).toBe("Updated");
+			});
+			unmount();
+		});
+	});
+});
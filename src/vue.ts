@@ -0,0 +1,84 @@
+import { DEV } from "esm-env";
+import {
+	computed,
+	getCurrentScope,
+	onScopeDispose,
+	type ShallowRef,
+	shallowReadonly,
+	shallowRef,
+	type WritableComputedRef,
+} from "vue";
+import type {
+	ReadonlyStore,
+	StateObject,
+	StatePrimitive,
+	Store,
+} from "./index.js";
+
+/**
+ * Subscribe to the state of the store as a read-only ref, optionally selecting a derived value.
+ * The subscription is removed when the component unmounts, or when the current effect scope is disposed.
+ * @param store - The store to subscribe to.
+ * @param selector - Optional function to select/derive a value from the store state.
+ * @returns A read-only ref of the current state, or the selected value if a selector is provided.
+ * @example
+ * const countStore = store(0);
+ * const count = useStoreValue(countStore);
+ *
+ * // With selector:
+ * const docStore = store({ title: 'Hello', author: 'Ben' });
+ * const title = useStoreValue(docStore, (s) => s.title);
+ */
+export function useStoreValue<T extends StateObject | StatePrimitive>(
+	store: ReadonlyStore<T>,
+): Readonly<ShallowRef<T>>;
+export function useStoreValue<T extends StateObject | StatePrimitive, U>(
+	store: ReadonlyStore<T>,
+	selector: (state: T) => U,
+): Readonly<ShallowRef<U>>;
+export function useStoreValue<T extends StateObject | StatePrimitive, U>(
+	store: ReadonlyStore<T>,
+	selector?: (state: T) => U,
+): Readonly<ShallowRef<T | U>> {
+	const read = () => (selector ? selector(store.get()) : store.get());
+	const value = shallowRef<T | U>(read());
+	const unsubscribe = store.subscribe(() => {
+		value.value = read();
+	});
+
+	if (getCurrentScope()) {
+		onScopeDispose(unsubscribe);
+	} else if (DEV) {
+		console.warn(
+			"[@simplestack/store] useStoreValue() was called outside of a component setup() or effect scope. " +
+				"The subscription will never be removed.",
+		);
+	}
+
+	return shallowReadonly(value);
+}
+
+/**
+ * Subscribe to the state of the store as a writable ref.
+ * Assigning to the ref calls `store.set()`, so it can be used with `v-model`.
+ * Works with selected stores to bind a single field.
+ * @param store - The store to subscribe to.
+ * @returns A writable ref of the current state.
+ * @example
+ * const documentStore = store({ title: "Untitled" });
+ *
+ * // In setup():
+ * const title = useStoreModel(documentStore.select("title"));
+ *
+ * // In the template:
+ * <input v-model="title" />
+ */
+export function useStoreModel<T extends StateObject | StatePrimitive>(
+	store: Store<T>,
+): WritableComputedRef<T> {
+	const value = useStoreValue(store);
+	return computed({
+		get: () => value.value,
+		set: (next) => store.set(next),
+	});
+}
@@ -1,6 +1,18 @@
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+	resolve: {
+		alias: [
+			// Node resolves the server build of Solid, which is not reactive.
+			{
+				find: /^solid-js$/,
+				replacement: fileURLToPath(
+					new URL("./node_modules/solid-js/dist/solid.js", import.meta.url),
+				),
+			},
+		],
+	},
 	test: {
 		globals: true,
 		environment: "happy-dom",